@@ -0,0 +1,75 @@
+import { iter } from "../src/iter/mod.ts";
+import type { GenFn } from "../src/types.ts";
+
+const SIZE = 100_000;
+const data = Array.from({ length: SIZE }, (_, i) => i);
+
+const double = (x: number) => x * 2;
+const isMultipleOf3 = (x: number) => x % 3 === 0;
+const inc = (x: number) => x + 1;
+const add = (acc: number, x: number) => acc + x;
+
+// The pre-fusion implementation, where every combinator wraps the previous
+// generator function in a new one.
+const stacked = {
+  map: <T, U>(fn: (item: T) => U) => (gen: GenFn<T>): GenFn<U> =>
+    function* () {
+      for (const item of gen()) yield fn(item);
+    },
+  filter: <T>(fn: (item: T) => boolean) => (gen: GenFn<T>): GenFn<T> =>
+    function* () {
+      for (const item of gen()) if (fn(item)) yield item;
+    },
+  take: <T>(n: number) => (gen: GenFn<T>): GenFn<T> =>
+    function* () {
+      let i = 0;
+      for (const item of gen()) {
+        if (i === n) break;
+        yield item;
+        i++;
+      }
+    },
+  fold: <T, U>(init: U, fn: (acc: U, item: T) => U) => (gen: GenFn<T>): U => {
+    let acc = init;
+    for (const item of gen()) acc = fn(acc, item);
+    return acc;
+  },
+};
+
+for (const take of [SIZE, 100]) {
+  const group = `map-filter-map-take(${take})`;
+
+  Deno.bench("native array methods", { group, baseline: true }, () => {
+    data.map(double).filter(isMultipleOf3).map(inc).slice(0, take).reduce(
+      add,
+      0,
+    );
+  });
+
+  Deno.bench("native iterator helpers", { group }, () => {
+    data.values().map(double).filter(isMultipleOf3).map(inc).take(take)
+      .reduce(add, 0);
+  });
+
+  Deno.bench("stacked generators", { group }, () => {
+    const source: GenFn<number> = function* () {
+      yield* data;
+    };
+    stacked.fold(0, add)(
+      stacked.take<number>(take)(
+        stacked.map(inc)(
+          stacked.filter(isMultipleOf3)(
+            stacked.map(double)(source),
+          ),
+        ),
+      ),
+    );
+  });
+
+  Deno.bench("Iter (fused)", { group }, () => {
+    iter(data).map(double).filter(isMultipleOf3).map(inc).take(take).fold(
+      0,
+      add,
+    );
+  });
+}
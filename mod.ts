@@ -0,0 +1,18 @@
+/**
+ * Lazy, composable iterators for Deno and the browser.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { iter, range, toArray } from "@blazes/iter";
+ *
+ * assertEquals(
+ *   range(10).filter((x) => x % 2 === 0).map((x) => x * x).collect(toArray()),
+ *   [0, 4, 16, 36, 64],
+ * );
+ * assertEquals(iter([1, 2, 3]).rev().collect(toArray()), [3, 2, 1]);
+ * ```
+ *
+ * @module
+ */
+export * from "./src/mod.ts";
@@ -0,0 +1,48 @@
+import { assertEquals } from "@std/assert";
+import config from "./deno.json" with { type: "json" };
+
+// 🔹 Each module is imported in a fresh worker, so no other module can load
+// its dependencies first. Workers read the modules from disk, which needs
+// `--allow-read`, as passed by the `test` task.
+
+const loader = URL.createObjectURL(
+  new Blob([
+    `self.onmessage = ({ data }) => import(data).then(
+      () => postMessage("ok"),
+      (error) => postMessage(String(error)),
+    );`,
+  ], { type: "text/javascript" }),
+);
+
+function load(url: URL): Promise<string> {
+  const worker = new Worker(loader, { type: "module" });
+  return new Promise<string>((resolve) => {
+    worker.onmessage = ({ data }) => resolve(data);
+    worker.onerror = (event) => {
+      event.preventDefault();
+      resolve(event.message);
+    };
+    worker.postMessage(url.href);
+  }).finally(() => worker.terminate());
+}
+
+/** The modules under `dir`, as paths relative to this file. */
+async function* modules(dir: string): AsyncGenerator<string> {
+  for await (const entry of Deno.readDir(new URL(dir, import.meta.url))) {
+    const path = `${dir}${entry.name}`;
+    if (entry.isDirectory) yield* modules(`${path}/`);
+    else if (path.endsWith(".ts") && !path.endsWith("_test.ts")) yield path;
+  }
+}
+
+for (const [name, path] of Object.entries(config.exports)) {
+  Deno.test(`export "${name}" loads on its own`, async () => {
+    assertEquals(await load(new URL(path, import.meta.url)), "ok");
+  });
+}
+
+for await (const path of modules("./src/")) {
+  Deno.test(`${path} loads on its own`, async () => {
+    assertEquals(await load(new URL(path, import.meta.url)), "ok");
+  });
+}
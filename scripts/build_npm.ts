@@ -0,0 +1,35 @@
+import { build, emptyDir } from "@deno/dnt";
+
+const config = JSON.parse(await Deno.readTextFile("deno.json"));
+const exports: Record<string, string> = config.exports;
+
+async function buildNpm() {
+  await emptyDir("./npm");
+  await build({
+    entryPoints: Object.entries(exports).map(([name, path]) =>
+      name === "." ? path : { name, path }
+    ),
+    outDir: "./npm",
+    shims: {},
+    test: false,
+    // 🔹 ESM only, so bundlers can drop unused exports. The modules extending
+    // `Iter` register with it as they load, so they must be kept.
+    scriptModule: false,
+    package: {
+      name: config.name,
+      version: config.version,
+      license: config.license,
+      sideEffects: [
+        "./esm/src/iter/exact_sized.js",
+        "./esm/src/iter/random_access.js",
+        "./esm/src/iter/combinatorics.js",
+      ],
+    },
+    compilerOptions: { lib: ["ESNext", "DOM"] },
+    postBuild() {
+      Deno.copyFileSync("README.md", "npm/README.md");
+    },
+  });
+}
+
+await buildNpm();
@@ -0,0 +1,9 @@
+export { AsyncIter } from "./iter/async_iter.ts";
+export { interval, timer } from "./iter/async_sources.ts";
+export { type Clock, realClock, VirtualClock } from "./iter/time.ts";
+export type {
+  AbortOptions,
+  AsyncGenFn,
+  AsyncPredicate,
+  Awaitable,
+} from "./types.ts";
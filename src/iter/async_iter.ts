@@ -0,0 +1,239 @@
+import type { Option } from "../option.ts";
+import type {
+  AbortOptions,
+  AsyncGenFn,
+  AsyncPredicate,
+  Awaitable,
+} from "../types.ts";
+import {
+  abortable,
+  all,
+  any,
+  count,
+  cycle,
+  enumerate,
+  every,
+  filter,
+  find,
+  fold,
+  forEach,
+  map,
+  mapConcurrent,
+  mapUnordered,
+  onFinally,
+  reduce,
+  skip,
+  skipWhile,
+  some,
+  take,
+  takeUntilAborted,
+  takeWhile,
+} from "./async_utils.ts";
+import { parMap, type ParMapOptions } from "./parallel.ts";
+import {
+  bufferTime,
+  type Clock,
+  debounce,
+  delay,
+  realClock,
+  sample,
+  throttle,
+  timeout,
+} from "./time.ts";
+
+export class AsyncIter<T> implements AsyncDisposable {
+  protected _gen: AsyncGenFn<T>;
+  /** Passes started through `Symbol.asyncIterator` that have not ended yet. */
+  protected _open: Set<AsyncGenerator<T>> = new Set();
+
+  constructor(gen: AsyncGenFn<T>) {
+    this._gen = gen;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    const pass = this._gen();
+    this._open.add(pass);
+    try {
+      yield* pass;
+    } finally {
+      this._open.delete(pass);
+    }
+  }
+
+  /** Closes every pass still open over this iterator, like `Iter`. */
+  async [Symbol.asyncDispose](): Promise<void> {
+    const open = [...this._open];
+    this._open.clear();
+    await Promise.all(open.map((pass) => pass.return(undefined)));
+  }
+
+  map<U>(fn: (item: T) => Awaitable<U>): AsyncIter<U> {
+    return new AsyncIter(map(fn)(this._gen));
+  }
+
+  /** Runs `fn` whenever a pass ends: when exhausted, stopped early or failed. */
+  onFinally(fn: () => Awaitable<void>): AsyncIter<T> {
+    return new AsyncIter(onFinally<T>(fn)(this._gen));
+  }
+
+  /** Like `map`, running up to `n` callbacks at once and keeping source order. */
+  mapConcurrent<U>(n: number, fn: (item: T) => Awaitable<U>): AsyncIter<U> {
+    return new AsyncIter(mapConcurrent(n, fn)(this._gen));
+  }
+
+  /** Like `map`, running up to `n` callbacks at once and yielding in completion order. */
+  mapUnordered<U>(n: number, fn: (item: T) => Awaitable<U>): AsyncIter<U> {
+    return new AsyncIter(mapUnordered(n, fn)(this._gen));
+  }
+
+  /** Like `Iter#parMap`, mapping items on a pool of Web Workers. */
+  parMap<U>(task: URL | string, options?: ParMapOptions): AsyncIter<U> {
+    return new AsyncIter(parMap<T, U>(task, options)(this._gen));
+  }
+
+  filter(fn: AsyncPredicate<T>): AsyncIter<T> {
+    return new AsyncIter(filter(fn)(this._gen));
+  }
+
+  take(n: number): AsyncIter<T> {
+    return new AsyncIter(take<T>(n)(this._gen));
+  }
+
+  takeWhile(fn: AsyncPredicate<T>): AsyncIter<T> {
+    return new AsyncIter(takeWhile(fn)(this._gen));
+  }
+
+  skip(n: number): AsyncIter<T> {
+    return new AsyncIter(skip<T>(n)(this._gen));
+  }
+
+  skipWhile(fn: AsyncPredicate<T>): AsyncIter<T> {
+    return new AsyncIter(skipWhile(fn)(this._gen));
+  }
+
+  /** Ends the pass once `signal` aborts, even while waiting on the source. */
+  takeUntilAborted(signal: AbortSignal): AsyncIter<T> {
+    return new AsyncIter(takeUntilAborted<T>(signal)(this._gen));
+  }
+
+  /**
+   * Folds every item into an accumulator.
+   *
+   * Like the other terminals taking `{ signal }`, rejects with `signal.reason`
+   * as soon as the signal aborts, even while waiting on the source, and
+   * closes the source.
+   */
+  fold<U>(
+    init: U,
+    fn: (acc: U, item: T) => Awaitable<U>,
+    options?: AbortOptions,
+  ): Promise<U> {
+    return fold(init, fn)(abortable<T>(options?.signal)(this._gen));
+  }
+
+  reduce(
+    fn: (acc: T, item: T) => Awaitable<T>,
+    options?: AbortOptions,
+  ): Promise<Option<T>> {
+    return reduce(fn)(abortable<T>(options?.signal)(this._gen));
+  }
+
+  /**
+   * Yields an item, then drops the ones that follow it within `ms`.
+   *
+   * @throws {RangeError} When `ms` is negative or `NaN`.
+   */
+  throttle(ms: number, clock: Clock = realClock): AsyncIter<T> {
+    return new AsyncIter(throttle<T>(ms, clock)(this._gen));
+  }
+
+  /**
+   * Yields an item once `ms` pass without a newer one, and the last item when
+   * the source ends.
+   *
+   * @throws {RangeError} When `ms` is negative or `NaN`.
+   */
+  debounce(ms: number, clock: Clock = realClock): AsyncIter<T> {
+    return new AsyncIter(debounce<T>(ms, clock)(this._gen));
+  }
+
+  /**
+   * Fails when the source takes longer than `ms` to produce an item.
+   *
+   * @throws {RangeError} When `ms` is negative or `NaN`.
+   */
+  timeout(ms: number, clock: Clock = realClock): AsyncIter<T> {
+    return new AsyncIter(timeout<T>(ms, clock)(this._gen));
+  }
+
+  /**
+   * Every `ms`, yields the latest item if a new one arrived since the last.
+   *
+   * @throws {RangeError} When `ms` is not more than 0, or is `NaN`.
+   */
+  sample(ms: number, clock: Clock = realClock): AsyncIter<T> {
+    return new AsyncIter(sample<T>(ms, clock)(this._gen));
+  }
+
+  /**
+   * Every `ms`, yields the items that arrived since the last batch, if any.
+   *
+   * @throws {RangeError} When `ms` is not more than 0, or is `NaN`.
+   */
+  bufferTime(ms: number, clock: Clock = realClock): AsyncIter<Array<T>> {
+    return new AsyncIter(bufferTime<T>(ms, clock)(this._gen));
+  }
+
+  /**
+   * Waits `ms` after each item arrives before yielding it.
+   *
+   * @throws {RangeError} When `ms` is negative or `NaN`.
+   */
+  delay(ms: number, clock: Clock = realClock): AsyncIter<T> {
+    return new AsyncIter(delay<T>(ms, clock)(this._gen));
+  }
+
+  enumerate(): AsyncIter<[number, T]> {
+    return new AsyncIter(enumerate(this._gen));
+  }
+
+  count(options?: AbortOptions): Promise<number> {
+    return count()(abortable<T>(options?.signal)(this._gen));
+  }
+
+  cycle(): AsyncIter<T> {
+    return new AsyncIter(cycle(this._gen));
+  }
+
+  any(predicate: AsyncPredicate<T>): Promise<boolean> {
+    return any(predicate)(this._gen);
+  }
+
+  all(predicate: AsyncPredicate<T>): Promise<boolean> {
+    return all(predicate)(this._gen);
+  }
+
+  /**  Alias to any */
+  some(predicate: AsyncPredicate<T>): Promise<boolean> {
+    return some(predicate)(this._gen);
+  }
+
+  /** Alias to all */
+  every(predicate: AsyncPredicate<T>): Promise<boolean> {
+    return every(predicate)(this._gen);
+  }
+
+  find(
+    predicate: AsyncPredicate<T>,
+    options?: AbortOptions,
+  ): Promise<Option<T>> {
+    return find(predicate)(abortable<T>(options?.signal)(this._gen));
+  }
+
+  forEach(
+    fn: (item: T) => Awaitable<void>,
+    options?: AbortOptions,
+  ): Promise<void> {
+    return forEach(fn)(abortable<T>(options?.signal)(this._gen));
+  }
+}
@@ -0,0 +1,175 @@
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
+import type { Awaitable } from "../types.ts";
+import { AsyncIter } from "./async_iter.ts";
+
+const tick = (ms = 0) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Yields `0` to `n - 1`, counting the items pulled and noting the close. */
+function counted(n: number) {
+  const state = { pulled: 0, closed: false };
+  const source = new AsyncIter(async function* () {
+    try {
+      for (let i = 0; i < n; i++) {
+        state.pulled++;
+        yield i;
+      }
+    } finally {
+      state.closed = true;
+    }
+  });
+  return { source, state };
+}
+
+/** Doubles items after uneven waits, noting the most calls in flight. */
+function tracked() {
+  const state = { active: 0, most: 0 };
+  const fn = async (x: number) => {
+    state.active++;
+    state.most = Math.max(state.most, state.active);
+    await tick((x * 7) % 5);
+    state.active--;
+    return x * 2;
+  };
+  return { fn, state };
+}
+
+const concurrent: Array<
+  [
+    string,
+    (
+      it: AsyncIter<number>,
+      n: number,
+      fn: (x: number) => Awaitable<number>,
+    ) => AsyncIter<number>,
+  ]
+> = [
+  ["mapConcurrent", (it, n, fn) => it.mapConcurrent(n, fn)],
+  ["mapUnordered", (it, n, fn) => it.mapUnordered(n, fn)],
+];
+
+for (const [name, apply] of concurrent) {
+  Deno.test(`${name} rejects a limit below 1 or NaN when called`, () => {
+    const { source } = counted(3);
+    for (const n of [0, -1, 0.5, NaN]) {
+      assertThrows(
+        () => apply(source, n, (x) => x),
+        Error,
+        "Concurrency limit must be at least 1",
+      );
+    }
+  });
+
+  Deno.test(`${name} keeps at most n calls in flight`, async () => {
+    for (const n of [1, 3]) {
+      const { source } = counted(30);
+      const { fn, state } = tracked();
+      const results = await Array.fromAsync(apply(source, n, fn));
+      assertEquals(
+        results.toSorted((a, b) => a - b),
+        Array.from({ length: 30 }, (_, i) => i * 2),
+      );
+      assertEquals(state.most, n);
+    }
+  });
+
+  Deno.test(`${name} stops pulling from the source on abort`, async () => {
+    const n = 3;
+    const { source, state } = counted(1000);
+    const { fn } = tracked();
+    const controller = new AbortController();
+    let consumed = 0;
+    await assertRejects(
+      () =>
+        apply(source, n, fn).forEach(() => {
+          if (++consumed === 5) controller.abort(new Error("Stop"));
+        }, { signal: controller.signal }),
+      Error,
+      "Stop",
+    );
+    await tick(20);
+    const pulled = state.pulled;
+    await tick(20);
+    assertEquals(state.pulled, pulled);
+    assert(pulled <= consumed + n + 1, `pulled ${pulled} items`);
+  });
+}
+
+Deno.test("mapConcurrent keeps source order", async () => {
+  const { source } = counted(20);
+  const { fn } = tracked();
+  assertEquals(
+    await Array.fromAsync(source.mapConcurrent(4, fn)),
+    Array.from({ length: 20 }, (_, i) => i * 2),
+  );
+});
+
+const terminals: Array<
+  [string, (it: AsyncIter<number>, signal: AbortSignal) => Promise<unknown>]
+> = [
+  ["fold", (it, signal) => it.fold(0, (sum, x) => sum + x, { signal })],
+  ["reduce", (it, signal) => it.reduce((sum, x) => sum + x, { signal })],
+  ["count", (it, signal) => it.count({ signal })],
+  ["find", (it, signal) => it.find(() => false, { signal })],
+  ["forEach", (it, signal) => it.forEach(() => {}, { signal })],
+  [
+    "takeUntilAborted",
+    (it, signal) =>
+      Array.fromAsync(it.takeUntilAborted(signal)).then(() => {
+        throw signal.reason;
+      }),
+  ],
+];
+
+/** Yields `0` to `2`, then aborts `controller` and waits until `open()`. */
+function stalled(controller: AbortController) {
+  const state = { closed: false };
+  let open = () => {};
+  const gate = new Promise<void>((resolve) => open = resolve);
+  const source = new AsyncIter(async function* () {
+    try {
+      yield* [0, 1, 2];
+      setTimeout(() => controller.abort(new Error("Stop")));
+      await gate;
+      yield 3;
+    } finally {
+      state.closed = true;
+    }
+  });
+  return { source, state, open };
+}
+
+for (const [name, consume] of terminals) {
+  Deno.test(`${name} closes the source when the signal aborts between items`, async () => {
+    const controller = new AbortController();
+    const { source, state } = counted(1000);
+    await assertRejects(
+      () =>
+        consume(
+          source.map((x) => {
+            if (x === 3) controller.abort(new Error("Stop"));
+            return x;
+          }),
+          controller.signal,
+        ),
+      Error,
+      "Stop",
+    );
+    assert(state.closed, "the source was left open");
+    assertEquals(state.pulled, 4);
+  });
+
+  Deno.test(`${name} closes the source when the signal aborts while it waits`, async () => {
+    const controller = new AbortController();
+    const { source, state, open } = stalled(controller);
+    await assertRejects(
+      () => consume(source, controller.signal),
+      Error,
+      "Stop",
+    );
+    // 🔹 The source is closed in the background once its pending item settles
+    assert(!state.closed, "the source was closed while still running");
+    open();
+    await tick();
+    assert(state.closed, "the source was left open");
+  });
+}
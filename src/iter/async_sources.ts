@@ -0,0 +1,53 @@
+import { AsyncIter } from "./async_iter.ts";
+import {
+  assertDelay,
+  assertPeriod,
+  type Clock,
+  realClock,
+  sleep,
+} from "./time.ts";
+
+/**
+ * Yields `0`, `1`, `2`, ... one every `ms` milliseconds, the first one after
+ * `ms`. Ticks are spaced from the start of the pass, so slow consumers do not
+ * make them drift.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { VirtualClock } from "@blazes/iter/async";
+ *
+ * const clock = new VirtualClock();
+ * const ticks = interval(100, clock).take(3).fold(0, (n) => n + 1);
+ * await clock.advance(300);
+ * assertEquals(await ticks, 3);
+ * ```
+ *
+ * @throws {RangeError} When `ms` is not more than 0, or is `NaN`.
+ */
+export function interval(
+  ms: number,
+  clock: Clock = realClock,
+): AsyncIter<number> {
+  assertPeriod(ms);
+  return new AsyncIter(async function* () {
+    const start = clock.now();
+    for (let i = 0;; i++) {
+      await sleep(start + (i + 1) * ms - clock.now(), clock);
+      yield i;
+    }
+  });
+}
+
+/**
+ * Yields `0` once, after `ms` milliseconds.
+ *
+ * @throws {RangeError} When `ms` is negative or `NaN`.
+ */
+export function timer(ms: number, clock: Clock = realClock): AsyncIter<number> {
+  assertDelay(ms);
+  return new AsyncIter(async function* () {
+    await sleep(ms, clock);
+    yield 0;
+  });
+}
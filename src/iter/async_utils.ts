@@ -0,0 +1,295 @@
+import { none, type Option, Some } from "../option.ts";
+import type { AsyncGenFn, AsyncPredicate, Awaitable } from "../types.ts";
+import { assertSize, toCount } from "./utils.ts";
+
+export function enumerate<T>(gen: AsyncGenFn<T>): AsyncGenFn<[number, T]> {
+  return async function* () {
+    let i = 0;
+    for await (const item of gen()) yield [i++, item];
+  };
+}
+
+export function map<T, U>(
+  fn: (item: T) => Awaitable<U>,
+): (gen: AsyncGenFn<T>) => AsyncGenFn<U> {
+  return (gen) =>
+    async function* () {
+      for await (const item of gen()) yield await fn(item);
+    };
+}
+
+export function filter<T>(
+  fn: AsyncPredicate<T>,
+): (gen: AsyncGenFn<T>) => AsyncGenFn<T> {
+  return (gen) =>
+    async function* () {
+      for await (const item of gen()) if (await fn(item)) yield item;
+    };
+}
+
+export function take<T>(n: number): (gen: AsyncGenFn<T>) => AsyncGenFn<T> {
+  const count = toCount(n);
+  return (gen) =>
+    async function* () {
+      if (count <= 0) return;
+      let i = 0;
+      for await (const item of gen()) {
+        yield item;
+        if (++i === count) break;
+      }
+    };
+}
+
+export function takeWhile<T>(
+  fn: AsyncPredicate<T>,
+): (gen: AsyncGenFn<T>) => AsyncGenFn<T> {
+  return (gen) =>
+    async function* () {
+      for await (const item of gen()) {
+        if (!(await fn(item))) break;
+        yield item;
+      }
+    };
+}
+
+export function skip<T>(n: number): (gen: AsyncGenFn<T>) => AsyncGenFn<T> {
+  const count = toCount(n);
+  return (gen) =>
+    async function* () {
+      let skip = count;
+      for await (const item of gen()) {
+        if (skip <= 0) yield item;
+        skip--;
+      }
+    };
+}
+
+export function skipWhile<T>(
+  fn: AsyncPredicate<T>,
+): (gen: AsyncGenFn<T>) => AsyncGenFn<T> {
+  return (gen) =>
+    async function* () {
+      let skipping = true;
+      for await (const item of gen()) {
+        if (skipping && (await fn(item))) continue;
+        skipping = false;
+        yield item;
+      }
+    };
+}
+
+/** Ends the pass once `signal` aborts, even while waiting on the source. */
+export function takeUntilAborted<T>(
+  signal: AbortSignal,
+): (gen: AsyncGenFn<T>) => AsyncGenFn<T> {
+  return (gen) => watch(gen, signal, false);
+}
+
+/**
+ * Throws `signal.reason` from the pass once `signal` aborts, even while
+ * waiting on the source. Without a signal, `gen` is returned as-is.
+ */
+export function abortable<T>(
+  signal: AbortSignal | undefined,
+): (gen: AsyncGenFn<T>) => AsyncGenFn<T> {
+  return (gen) => signal === undefined ? gen : watch(gen, signal, true);
+}
+
+const ABORTED = Symbol("aborted");
+
+function watch<T>(
+  gen: AsyncGenFn<T>,
+  signal: AbortSignal,
+  fail: boolean,
+): AsyncGenFn<T> {
+  return async function* () {
+    const source = gen();
+    let pending: Promise<IteratorResult<T>> | undefined;
+    let abort = () => {};
+    const aborted = new Promise<typeof ABORTED>((resolve) => {
+      abort = () => resolve(ABORTED);
+    });
+    signal.addEventListener("abort", abort, { once: true });
+    try {
+      while (true) {
+        const result = signal.aborted
+          ? ABORTED
+          : await Promise.race([pending = source.next(), aborted]);
+        if (result === ABORTED) {
+          if (fail) throw signal.reason;
+          return;
+        }
+        pending = undefined;
+        if (result.done) return;
+        yield result.value;
+      }
+    } finally {
+      signal.removeEventListener("abort", abort);
+      if (pending === undefined) await source.return(undefined);
+      else {
+        // 🔹 `return()` waits for the pending `next()`, which may never settle,
+        // so the source is closed in the background
+        pending.catch(() => {});
+        source.return(undefined).catch(() => {});
+      }
+    }
+  };
+}
+
+export function cycle<T>(gen: AsyncGenFn<T>): AsyncGenFn<T> {
+  return async function* () {
+    while (true) {
+      let empty = true;
+      for await (const item of gen()) {
+        empty = false;
+        yield item;
+      }
+      if (empty) return;
+    }
+  };
+}
+
+export function onFinally<T>(
+  fn: () => Awaitable<void>,
+): (gen: AsyncGenFn<T>) => AsyncGenFn<T> {
+  return (gen) =>
+    async function* () {
+      try {
+        yield* gen();
+      } finally {
+        await fn();
+      }
+    };
+}
+
+/**
+ * Maps every item with an async `fn`, keeping at most `n` calls in flight.
+ * Results are yielded in source order.
+ *
+ * @throws {Error} When `n` is less than 1 or `NaN`.
+ */
+export function mapConcurrent<T, U>(
+  n: number,
+  fn: (item: T) => Awaitable<U>,
+): (gen: AsyncGenFn<T>) => AsyncGenFn<U> {
+  assertSize(n, "Concurrency limit");
+  return (gen) =>
+    async function* () {
+      const pending: Promise<U>[] = [];
+      for await (const item of gen()) {
+        pending.push(settle(fn, item));
+        if (pending.length >= n) yield await pending.shift()!;
+      }
+      while (pending.length > 0) yield await pending.shift()!;
+    };
+}
+
+/**
+ * Maps every item with an async `fn`, keeping at most `n` calls in flight.
+ * Results are yielded as soon as they resolve, regardless of source order.
+ *
+ * @throws {Error} When `n` is less than 1 or `NaN`.
+ */
+export function mapUnordered<T, U>(
+  n: number,
+  fn: (item: T) => Awaitable<U>,
+): (gen: AsyncGenFn<T>) => AsyncGenFn<U> {
+  assertSize(n, "Concurrency limit");
+  return (gen) =>
+    async function* () {
+      const pending = new Map<number, Promise<[number, U]>>();
+      let id = 0;
+      const next = async () => {
+        const [key, value] = await Promise.race(pending.values());
+        pending.delete(key);
+        return value;
+      };
+      for await (const item of gen()) {
+        const key = id++;
+        pending.set(
+          key,
+          settle(async (item: T) => [key, await fn(item)], item),
+        );
+        if (pending.size >= n) yield await next();
+      }
+      while (pending.size > 0) yield await next();
+    };
+}
+
+// Starts `fn(item)` right away and marks the promise as handled, so a
+// rejection that is not awaited yet does not surface as unhandled.
+function settle<T, U>(fn: (item: T) => Awaitable<U>, item: T): Promise<U> {
+  const promise = (async () => await fn(item))();
+  promise.catch(() => {});
+  return promise;
+}
+
+export function fold<T, U>(
+  init: U,
+  fn: (acc: U, item: T) => Awaitable<U>,
+): (gen: AsyncGenFn<T>) => Promise<U> {
+  return async (gen) => {
+    let acc = init;
+    for await (const item of gen()) acc = await fn(acc, item);
+    return acc;
+  };
+}
+
+export function reduce<T>(
+  fn: (acc: T, item: T) => Awaitable<T>,
+): (gen: AsyncGenFn<T>) => Promise<Option<T>> {
+  return async (gen) => {
+    const iterator = gen();
+    const first = await iterator.next();
+    if (first.done) return none;
+    let acc = first.value;
+    for await (const item of iterator) {
+      acc = await fn(acc, item);
+    }
+    return new Some(acc);
+  };
+}
+
+export function count<T>(): (gen: AsyncGenFn<T>) => Promise<number> {
+  return (gen) => fold<T, number>(0, (acc) => acc + 1)(gen);
+}
+
+export function any<T>(
+  fn: AsyncPredicate<T>,
+): (gen: AsyncGenFn<T>) => Promise<boolean> {
+  return async (gen) => {
+    for await (const item of gen()) if (await fn(item)) return true;
+    return false;
+  };
+}
+
+export function all<T>(
+  fn: AsyncPredicate<T>,
+): (gen: AsyncGenFn<T>) => Promise<boolean> {
+  return async (gen) => {
+    for await (const item of gen()) if (!(await fn(item))) return false;
+    return true;
+  };
+}
+
+export function find<T>(
+  fn: AsyncPredicate<T>,
+): (gen: AsyncGenFn<T>) => Promise<Option<T>> {
+  return async (gen) => {
+    for await (const item of gen()) if (await fn(item)) return new Some(item);
+    return none;
+  };
+}
+
+export function forEach<T>(
+  fn: (item: T) => Awaitable<void>,
+): (gen: AsyncGenFn<T>) => Promise<void> {
+  return async (gen) => {
+    for await (const item of gen()) await fn(item);
+  };
+}
+
+/**  Alias to any */
+export const some = any;
+/**  Alias to all */
+export const every = all;
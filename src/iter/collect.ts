@@ -0,0 +1,182 @@
+import { none, type Option, some } from "../option.ts";
+import type { Predicate, SizeHint } from "../types.ts";
+
+/**
+ * Describes how `Iter#collect` materializes items: `init` builds the
+ * accumulator (with the source's size hint, for preallocation), `push` adds
+ * one item and returns the accumulator, and `finish` turns it into the result.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { type Collector, iter, none, type Option, some } from "@blazes/iter";
+ *
+ * const last = <T>(): Collector<T, Option<T>, Option<T>> => ({
+ *   init: () => none,
+ *   push: (_, item) => some(item),
+ *   finish: (acc) => acc,
+ * });
+ * assertEquals(iter([1, 2, 3]).collect(last()), some(3));
+ * ```
+ */
+export interface Collector<T, A, R> {
+  init(hint: SizeHint): A;
+  push(acc: A, item: T): A;
+  finish(acc: A): R;
+}
+
+/** Collects into an array, preallocated when the exact length is known. */
+export function toArray<T>(): Collector<T, [Array<T>, number], Array<T>> {
+  return {
+    init: ([lower, upper]) => [
+      lower === upper && Number.isFinite(lower) ? new Array(lower) : [],
+      0,
+    ],
+    push: (acc, item) => {
+      acc[0][acc[1]++] = item;
+      return acc;
+    },
+    finish: ([items, len]) => {
+      items.length = len;
+      return items;
+    },
+  };
+}
+
+export function toSet<T>(): Collector<T, Set<T>, Set<T>> {
+  return {
+    init: () => new Set(),
+    push: (acc, item) => acc.add(item),
+    finish: (acc) => acc,
+  };
+}
+
+export function toMap<K, V>(): Collector<[K, V], Map<K, V>, Map<K, V>> {
+  return {
+    init: () => new Map(),
+    push: (acc, [key, value]) => acc.set(key, value),
+    finish: (acc) => acc,
+  };
+}
+
+export function toObject<K extends PropertyKey, V>(): Collector<
+  [K, V],
+  Record<K, V>,
+  Record<K, V>
+> {
+  return {
+    init: () => ({}) as Record<K, V>,
+    push: (acc, [key, value]) => {
+      acc[key] = value;
+      return acc;
+    },
+    finish: (acc) => acc,
+  };
+}
+
+export function join<T>(sep: string = ","): Collector<T, Array<T>, string> {
+  return {
+    init: () => [],
+    push: (acc, item) => {
+      acc.push(item);
+      return acc;
+    },
+    finish: (acc) => acc.join(sep),
+  };
+}
+
+export function groupBy<T, K>(
+  fn: (item: T) => K,
+): Collector<T, Map<K, Array<T>>, Map<K, Array<T>>> {
+  return {
+    init: () => new Map(),
+    push: (acc, item) => {
+      const key = fn(item);
+      const group = acc.get(key);
+      if (group) group.push(item);
+      else acc.set(key, [item]);
+      return acc;
+    },
+    finish: (acc) => acc,
+  };
+}
+
+/** Splits items into `[matching, rest]`. */
+export function partition<T>(
+  fn: Predicate<T>,
+): Collector<T, [Array<T>, Array<T>], [Array<T>, Array<T>]> {
+  return {
+    init: () => [[], []],
+    push: (acc, item) => {
+      acc[fn(item) ? 0 : 1].push(item);
+      return acc;
+    },
+    finish: (acc) => acc,
+  };
+}
+
+export function countBy<T, K>(
+  fn: (item: T) => K,
+): Collector<T, Map<K, number>, Map<K, number>> {
+  return {
+    init: () => new Map(),
+    push: (acc, item) => {
+      const key = fn(item);
+      return acc.set(key, (acc.get(key) ?? 0) + 1);
+    },
+    finish: (acc) => acc,
+  };
+}
+
+/** The first item with the smallest key. */
+export function minBy<T, K>(
+  fn: (item: T) => K,
+): Collector<T, [K, T] | undefined, Option<T>> {
+  return extremeBy(fn, (a, b) => a < b);
+}
+
+/** The first item with the largest key. */
+export function maxBy<T, K>(
+  fn: (item: T) => K,
+): Collector<T, [K, T] | undefined, Option<T>> {
+  return extremeBy(fn, (a, b) => a > b);
+}
+
+function extremeBy<T, K>(
+  fn: (item: T) => K,
+  wins: (a: K, b: K) => boolean,
+): Collector<T, [K, T] | undefined, Option<T>> {
+  return {
+    init: () => undefined,
+    push: (acc, item) => {
+      const key = fn(item);
+      return acc === undefined || wins(key, acc[0]) ? [key, item] : acc;
+    },
+    finish: (acc) => (acc === undefined ? none : some(acc[1])),
+  };
+}
+
+export function sum(): Collector<number, number, number> {
+  return {
+    init: () => 0,
+    push: (acc, item) => acc + item,
+    finish: (acc) => acc,
+  };
+}
+
+export function product(): Collector<number, number, number> {
+  return {
+    init: () => 1,
+    push: (acc, item) => acc * item,
+    finish: (acc) => acc,
+  };
+}
+
+/** The arithmetic mean, or `none` when there are no items. */
+export function average(): Collector<number, [number, number], Option<number>> {
+  return {
+    init: () => [0, 0],
+    push: ([total, count], item) => [total + item, count + 1],
+    finish: ([total, count]) => (count === 0 ? none : some(total / count)),
+  };
+}
@@ -0,0 +1,125 @@
+import { assertEquals } from "@std/assert";
+import { pipe } from "../fp.ts";
+import { none, some } from "../option.ts";
+import type { SizeHint } from "../types.ts";
+import {
+  average,
+  type Collector,
+  countBy,
+  groupBy,
+  join,
+  maxBy,
+  minBy,
+  partition,
+  product,
+  sum,
+  toArray,
+  toMap,
+  toObject,
+  toSet,
+} from "./collect.ts";
+import { iter } from "./mod.ts";
+import * as operators from "./operators.ts";
+
+/** Collects into an array, noting the size hint it was started with. */
+function hinted<T>(hints: Array<SizeHint>): Collector<T, Array<T>, Array<T>> {
+  return {
+    init: (hint) => {
+      hints.push(hint);
+      return [];
+    },
+    push: (acc, item) => {
+      acc.push(item);
+      return acc;
+    },
+    finish: (acc) => acc,
+  };
+}
+
+Deno.test("collect passes the source's size hint to init", () => {
+  const hints: Array<SizeHint> = [];
+  iter([1, 2, 3]).collect(hinted(hints));
+  iter(new Set([1, 2])).collect(hinted(hints));
+  iter([1, 2, 3]).filter((x) => x > 1).collect(hinted(hints));
+  iter(function* () {
+    yield 1;
+  }).collect(hinted(hints));
+  assertEquals(hints, [[3, 3], [2, 2], [0, 3], [0, undefined]]);
+});
+
+Deno.test("toArray fills a preallocated array without holes", () => {
+  const exact = iter([1, 2, 3]).collect(toArray());
+  assertEquals(exact, [1, 2, 3]);
+  assertEquals(Object.keys(exact), ["0", "1", "2"]);
+  assertEquals(iter(new Set(["a", "b"])).collect(toArray()), ["a", "b"]);
+  assertEquals(
+    iter([1, 2, 3, 4]).filter((x) => x % 2 === 0).collect(toArray()),
+    [2, 4],
+  );
+  assertEquals(iter([]).collect(toArray()), []);
+});
+
+Deno.test("toSet, toMap and toObject keep the last value of a key", () => {
+  assertEquals(iter([1, 2, 1]).collect(toSet()), new Set([1, 2]));
+  const pairs: Array<[string, number]> = [["a", 1], ["b", 2], ["a", 3]];
+  assertEquals(
+    iter(pairs).collect(toMap()),
+    new Map([["a", 3], ["b", 2]]),
+  );
+  assertEquals(iter(pairs).collect(toObject()), { a: 3, b: 2 });
+  assertEquals(iter<[string, number]>([]).collect(toMap()), new Map());
+  assertEquals(iter<[string, number]>([]).collect(toObject()), {});
+});
+
+Deno.test("join concatenates items with a separator", () => {
+  assertEquals(iter([1, 2, 3]).collect(join()), "1,2,3");
+  assertEquals(iter(["a", "b"]).collect(join(" - ")), "a - b");
+  assertEquals(iter([]).collect(join()), "");
+});
+
+Deno.test("groupBy, partition and countBy keep the order items came in", () => {
+  const words = ["apple", "bean", "avocado", "corn", "beet"];
+  const first = (word: string) => word[0];
+  assertEquals(
+    iter(words).collect(groupBy(first)),
+    new Map([
+      ["a", ["apple", "avocado"]],
+      ["b", ["bean", "beet"]],
+      ["c", ["corn"]],
+    ]),
+  );
+  assertEquals(
+    iter(words).collect(partition((word) => word.length > 4)),
+    [["apple", "avocado"], ["bean", "corn", "beet"]],
+  );
+  assertEquals(
+    iter(words).collect(countBy(first)),
+    new Map([["a", 2], ["b", 2], ["c", 1]]),
+  );
+  assertEquals(iter<string>([]).collect(groupBy(first)), new Map());
+  assertEquals(iter<string>([]).collect(partition(() => true)), [[], []]);
+});
+
+Deno.test("minBy and maxBy keep the first item with the extreme key", () => {
+  const words = ["bb", "a", "cc", "d"];
+  assertEquals(iter(words).collect(minBy((w) => w.length)), some("a"));
+  assertEquals(iter(words).collect(maxBy((w) => w.length)), some("bb"));
+  assertEquals(iter<string>([]).collect(minBy((w) => w.length)), none);
+  assertEquals(iter<string>([]).collect(maxBy((w) => w.length)), none);
+});
+
+Deno.test("sum, product and average have their empty values", () => {
+  assertEquals(iter([1, 2, 3, 4]).collect(sum()), 10);
+  assertEquals(iter([1, 2, 3, 4]).collect(product()), 24);
+  assertEquals(iter([1, 2, 3, 4]).collect(average()), some(2.5));
+  assertEquals(iter<number>([]).collect(sum()), 0);
+  assertEquals(iter<number>([]).collect(product()), 1);
+  assertEquals(iter<number>([]).collect(average()), none);
+});
+
+Deno.test("collect runs a fresh collector per call", () => {
+  const doubled = iter([1, 2, 3]).map((x) => x * 2);
+  assertEquals(doubled.collect(toArray()), [2, 4, 6]);
+  assertEquals(doubled.collect(toArray()), [2, 4, 6]);
+  assertEquals(pipe([3, 1, 2], operators.collect(toSet())), new Set([3, 1, 2]));
+});
@@ -0,0 +1,274 @@
+import { none, type Option, some } from "../option.ts";
+import type { GenFn } from "../types.ts";
+import { registerTiers } from "./iter.ts";
+import { RandomAccessIter } from "./random_access.ts";
+
+/**
+ * A lazy sequence of arrangements, such as the permutations or combinations
+ * of a pool of items, in lexicographic order of the pool's indices.
+ *
+ * Its length can outgrow `Number.MAX_SAFE_INTEGER`: `len()` is then rounded,
+ * while `bigLen()` stays exact, and `at()` takes a `bigint` index to unrank
+ * any arrangement directly.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { iter, range } from "@blazes/iter";
+ *
+ * const pairs = iter(["a", "b", "c"]).combinations(2);
+ * assertEquals([...pairs], [["a", "b"], ["a", "c"], ["b", "c"]]);
+ * assertEquals(pairs.at(-1).unwrap(), ["b", "c"]);
+ *
+ * const huge = range(30).permutations();
+ * assertEquals(huge.bigLen(), 265252859812191058636308480000000n);
+ * assertEquals(huge.at(0).unwrap().slice(-2), [28, 29]);
+ * ```
+ */
+export class CombinatoricIter<T> extends RandomAccessIter<T> {
+  protected _count: bigint;
+  protected _unrank: (index: bigint) => T;
+
+  /**
+   * `unrank` is only called with indices in `[0, count)`, and `gen` must
+   * yield the same items in the same order.
+   */
+  constructor(gen: GenFn<T>, unrank: (index: bigint) => T, count: bigint) {
+    super((i) => unrank(BigInt(i)), Number(count));
+    this._count = count;
+    this._unrank = unrank;
+    // 🔹 Stepping from one arrangement to the next is cheaper than unranking
+    // every index, and bigint indices stay exact past 2^53
+    this._gen = gen;
+    this._rgen = function* () {
+      for (let i = count - 1n; i >= 0n; i--) yield unrank(i);
+    };
+  }
+
+  /** The exact number of items. */
+  bigLen(): bigint {
+    return this._count;
+  }
+
+  /** The item at index `i`, counting back from the end when negative. */
+  override at(i: number | bigint): Option<T> {
+    if (typeof i === "number" && !Number.isInteger(i)) return none;
+    const k = BigInt(i) < 0n ? this._count + BigInt(i) : BigInt(i);
+    if (k < 0n || k >= this._count) return none;
+    return some(this._unrank(k));
+  }
+}
+
+/** The `k`-permutations of `pool`, every ordering of every `k` items. */
+export function permutations<T>(
+  pool: Array<T>,
+  k: number,
+): CombinatoricIter<Array<T>> {
+  assertPick(k);
+  const n = pool.length;
+  return new CombinatoricIter(
+    function* () {
+      if (k > n) return;
+      // 🔹 `cycles[i]` counts the swaps left at position `i` before it rotates
+      // back, which steps through the orderings lexicographically
+      const indices = Array.from({ length: n }, (_, i) => i);
+      const cycles = Array.from({ length: k }, (_, i) => n - i);
+      yield pick(pool, indices, k);
+      while (true) {
+        let i = k - 1;
+        for (; i >= 0; i--) {
+          if (--cycles[i] > 0) break;
+          indices.push(...indices.splice(i, 1));
+          cycles[i] = n - i;
+        }
+        if (i < 0) return;
+        const j = n - cycles[i];
+        [indices[i], indices[j]] = [indices[j], indices[i]];
+        yield pick(pool, indices, k);
+      }
+    },
+    (rank) => {
+      const left = Array.from({ length: n }, (_, i) => i);
+      const indices: Array<number> = [];
+      for (let j = 0; j < k; j++) {
+        const block = arrangements(n - j - 1, k - j - 1);
+        indices.push(...left.splice(Number(rank / block), 1));
+        rank %= block;
+      }
+      return pick(pool, indices, k);
+    },
+    arrangements(n, k),
+  );
+}
+
+/** The `k`-combinations of `pool`, every choice of `k` items in pool order. */
+export function combinations<T>(
+  pool: Array<T>,
+  k: number,
+): CombinatoricIter<Array<T>> {
+  assertPick(k);
+  const n = pool.length;
+  return new CombinatoricIter(
+    function* () {
+      if (k > n) return;
+      const indices = Array.from({ length: k }, (_, i) => i);
+      yield pick(pool, indices, k);
+      while (true) {
+        let i = k - 1;
+        while (i >= 0 && indices[i] === i + n - k) i--;
+        if (i < 0) return;
+        indices[i]++;
+        for (let j = i + 1; j < k; j++) indices[j] = indices[j - 1] + 1;
+        yield pick(pool, indices, k);
+      }
+    },
+    (rank) => pick(pool, unrankCombination(n, k, rank), k),
+    binomial(n, k),
+  );
+}
+
+/**
+ * The `k`-combinations of `pool` where an item can be chosen more than once,
+ * in pool order.
+ */
+export function combinationsWithReplacement<T>(
+  pool: Array<T>,
+  k: number,
+): CombinatoricIter<Array<T>> {
+  assertPick(k);
+  const n = pool.length;
+  return new CombinatoricIter(
+    function* () {
+      if (n === 0 && k > 0) return;
+      const indices: Array<number> = new Array(k).fill(0);
+      yield pick(pool, indices, k);
+      while (true) {
+        let i = k - 1;
+        while (i >= 0 && indices[i] === n - 1) i--;
+        if (i < 0) return;
+        indices.fill(indices[i] + 1, i);
+        yield pick(pool, indices, k);
+      }
+    },
+    (rank) => {
+      const indices: Array<number> = [];
+      for (let j = 0, c = 0; j < k; c++) {
+        const count = multisets(n - c, k - j - 1);
+        if (rank < count) {
+          indices.push(c--);
+          j++;
+        } else rank -= count;
+      }
+      return pick(pool, indices, k);
+    },
+    multisets(n, k),
+  );
+}
+
+/** Every subset of `pool`, smallest first, each in pool order. */
+export function powerset<T>(pool: Array<T>): CombinatoricIter<Array<T>> {
+  const n = pool.length;
+  return new CombinatoricIter(
+    function* () {
+      for (let k = 0; k <= n; k++) yield* combinations(pool, k);
+    },
+    (rank) => {
+      let k = 0;
+      for (; rank >= binomial(n, k); k++) rank -= binomial(n, k);
+      return pick(pool, unrankCombination(n, k, rank), k);
+    },
+    1n << BigInt(n),
+  );
+}
+
+/**
+ * The cartesian product of `pools`, every tuple taking one item from each,
+ * with the last pool varying fastest.
+ */
+export function cartesianProduct<T extends Array<unknown>>(
+  pools: { [I in keyof T]: Array<T[I]> },
+): CombinatoricIter<T> {
+  const lengths = pools.map((pool) => pool.length);
+  const tuple = (indices: Array<number>) =>
+    indices.map((i, p) => pools[p][i]) as T;
+  return new CombinatoricIter(
+    function* () {
+      if (lengths.includes(0)) return;
+      const indices: Array<number> = new Array(pools.length).fill(0);
+      yield tuple(indices);
+      while (true) {
+        let p = pools.length - 1;
+        for (; p >= 0 && ++indices[p] === lengths[p]; p--) indices[p] = 0;
+        if (p < 0) return;
+        yield tuple(indices);
+      }
+    },
+    (rank) => {
+      const indices: Array<number> = new Array(pools.length);
+      for (let p = pools.length - 1; p >= 0; p--) {
+        const length = BigInt(lengths[p]);
+        indices[p] = Number(rank % length);
+        rank /= length;
+      }
+      return tuple(indices);
+    },
+    lengths.reduce((count, length) => count * BigInt(length), 1n),
+  );
+}
+
+registerTiers({
+  cartesianProduct,
+  combinations,
+  combinationsWithReplacement,
+  permutations,
+  powerset,
+});
+
+function assertPick(k: number): void {
+  if (!Number.isInteger(k) || k < 0) {
+    throw new Error("Pick size must be a non-negative integer");
+  }
+}
+
+function pick<T>(pool: Array<T>, indices: Array<number>, k: number): Array<T> {
+  const items = new Array<T>(k);
+  for (let i = 0; i < k; i++) items[i] = pool[indices[i]];
+  return items;
+}
+
+/** The combination of `k` out of `n` indices at `rank`. */
+function unrankCombination(n: number, k: number, rank: bigint): Array<number> {
+  const indices: Array<number> = [];
+  for (let j = 0, c = 0; j < k; c++) {
+    const count = binomial(n - c - 1, k - j - 1);
+    if (rank < count) {
+      indices.push(c);
+      j++;
+    } else rank -= count;
+  }
+  return indices;
+}
+
+/** The number of ways to choose `k` out of `n` items. */
+function binomial(n: number, k: number): bigint {
+  if (k < 0 || k > n) return 0n;
+  k = Math.min(k, n - k);
+  let count = 1n;
+  for (let i = 1; i <= k; i++) {
+    count = (count * BigInt(n - k + i)) / BigInt(i);
+  }
+  return count;
+}
+
+/** The number of orderings of `k` out of `n` items. */
+function arrangements(n: number, k: number): bigint {
+  if (k < 0 || k > n) return 0n;
+  let count = 1n;
+  for (let i = n - k + 1; i <= n; i++) count *= BigInt(i);
+  return count;
+}
+
+/** The number of ways to choose `k` out of `n` items, with repetition. */
+function multisets(n: number, k: number): bigint {
+  return k === 0 ? 1n : binomial(n + k - 1, k);
+}
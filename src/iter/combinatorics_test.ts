@@ -0,0 +1,52 @@
+import { assertEquals, assertInstanceOf } from "@std/assert";
+import { pipe } from "../fp.ts";
+import { CombinatoricIter } from "./combinatorics.ts";
+import { cartesianProduct, iter, product } from "./mod.ts";
+import * as operators from "./operators.ts";
+
+Deno.test("product with one source indexes its pairs like the n-ary one", () => {
+  const sources = [
+    iter([1, 2, 3]),
+    iter(new Set([1, 2, 3])),
+    iter([1, 2, 3].values()),
+  ];
+  for (const source of sources) {
+    const pairs = source.product(["a", "b"]);
+    assertInstanceOf(pairs, CombinatoricIter);
+    assertEquals([...pairs], [
+      [1, "a"],
+      [1, "b"],
+      [2, "a"],
+      [2, "b"],
+      [3, "a"],
+      [3, "b"],
+    ]);
+    assertEquals(pairs.len(), 6);
+    assertEquals(pairs.at(3).unwrap(), [2, "b"]);
+    assertEquals([...pairs.rev()], [...pairs].toReversed());
+  }
+});
+
+Deno.test("cartesianProduct() is a standalone n-ary source", () => {
+  const cells = cartesianProduct([0, 1], "xy", [true]);
+  assertEquals([...cells], [
+    [0, "x", true],
+    [0, "y", true],
+    [1, "x", true],
+    [1, "y", true],
+  ]);
+  assertEquals(cells.at(-2).unwrap(), [1, "x", true]);
+  assertEquals([...cartesianProduct([1, 2], [])], []);
+  assertEquals([...cartesianProduct()], [[]]);
+});
+
+Deno.test("product() at the root is still the collector", () => {
+  assertEquals(iter([2, 3, 4]).collect(product()), 24);
+});
+
+Deno.test("operators.product takes any number of sources", () => {
+  assertEquals(
+    pipe([1, 2], operators.product("ab", [0]), operators.toArray),
+    [[1, "a", 0], [1, "b", 0], [2, "a", 0], [2, "b", 0]],
+  );
+});
@@ -0,0 +1,132 @@
+import { assertEquals, assertInstanceOf } from "@std/assert";
+import { pipe } from "../fp.ts";
+import { DoubleEndedIter } from "./double_ended.ts";
+import { ExactSizedIter } from "./exact_sized.ts";
+import type { Iter } from "./iter.ts";
+import { iter } from "./mod.ts";
+import * as operators from "./operators.ts";
+
+function generated<T>(items: Array<T>): Iter<T> {
+  return iter(function* () {
+    yield* items;
+  });
+}
+
+Deno.test("zip stops at the shorter side and keeps the tightest tier", () => {
+  const pairs = iter([1, 2, 3]).zip(iter(["a", "b"]));
+  assertInstanceOf(pairs, DoubleEndedIter);
+  assertEquals([...pairs], [[1, "a"], [2, "b"]]);
+  assertEquals(pairs.len(), 2);
+  assertEquals([...pairs.rev()], [[2, "b"], [1, "a"]]);
+
+  const sets = iter(new Set([1, 2])).zip(iter(new Set(["a", "b", "c"])));
+  assertInstanceOf(sets, ExactSizedIter);
+  assertEquals(sets.len(), 2);
+
+  const mixed = generated([1, 2, 3]).zip(["a", "b"]);
+  assertEquals(mixed.sizeHint(), [0, 2]);
+  assertEquals([...mixed], [[1, "a"], [2, "b"]]);
+});
+
+Deno.test("zip and zipWith with an empty side yield nothing", () => {
+  assertEquals([...iter<number>([]).zip(iter([1, 2]))], []);
+  assertEquals(iter([1, 2]).zip(iter([])).len(), 0);
+  assertEquals([...iter([1, 2]).zip(iter([])).rev()], []);
+  assertEquals([...generated([1, 2]).zipWith([], (a, b) => a + b)], []);
+});
+
+Deno.test("zipWith combines pairs from both ends", () => {
+  const sums = iter([1, 2, 3, 4]).zipWith(iter([10, 20, 30]), (a, b) => a + b);
+  assertEquals([...sums], [11, 22, 33]);
+  assertEquals([...sums.rev()], [33, 22, 11]);
+});
+
+Deno.test("unzip splits pairs into two arrays", () => {
+  assertEquals(iter([[1, "a"], [2, "b"]] as Array<[number, string]>).unzip(), [
+    [1, 2],
+    ["a", "b"],
+  ]);
+  assertEquals(iter<[number, string]>([]).unzip(), [[], []]);
+});
+
+Deno.test("chain keeps going into the second source and sums lengths", () => {
+  const both = iter([1, 2]).chain(iter([3, 4, 5]));
+  assertInstanceOf(both, DoubleEndedIter);
+  assertEquals([...both], [1, 2, 3, 4, 5]);
+  assertEquals(both.len(), 5);
+  assertEquals([...both.rev()], [5, 4, 3, 2, 1]);
+
+  const sets = iter(new Set([1, 2])).chain(iter(new Set([3])));
+  assertInstanceOf(sets, ExactSizedIter);
+  assertEquals(sets.len(), 3);
+
+  assertEquals(generated([1]).chain([2, 3]).sizeHint(), [2, undefined]);
+  assertEquals([...iter<number>([]).chain(iter([])).rev()], []);
+  assertEquals([...generated<number>([]).chain([1])], [1]);
+});
+
+Deno.test("interleave alternates, then yields the rest of the longer side", () => {
+  assertEquals([...iter([1, 3, 5, 7]).interleave([2, 4])], [1, 2, 3, 4, 5, 7]);
+  assertEquals([...iter([1]).interleave([2, 4, 6])], [1, 2, 4, 6]);
+  assertEquals([...iter<number>([]).interleave([2, 4])], [2, 4]);
+
+  const sets = iter(new Set([1, 3])).interleave(iter(new Set([2])));
+  assertInstanceOf(sets, ExactSizedIter);
+  assertEquals(sets.len(), 3);
+  assertEquals(generated([1]).interleave([2, 3]).sizeHint(), [2, undefined]);
+});
+
+Deno.test("flatMap and flatten yield every inner item in order", () => {
+  assertEquals([...iter([1, 2, 3]).flatMap((x) => Array(x).fill(x))], [
+    1,
+    2,
+    2,
+    3,
+    3,
+    3,
+  ]);
+  assertEquals([...iter([[1], [], [2, 3]]).flatten()], [1, 2, 3]);
+  assertEquals([...iter<Array<number>>([]).flatten()], []);
+  assertEquals([...iter([[], []]).flatten()], []);
+  assertEquals(iter([[1], [2]]).flatten().sizeHint(), [0, undefined]);
+});
+
+Deno.test("combinator operators match the methods", () => {
+  const items = [1, 2, 3];
+  assertEquals(
+    pipe(items, operators.zip(["a", "b"]), operators.toArray),
+    [...iter(items).zip(["a", "b"])],
+  );
+  assertEquals(
+    pipe(
+      items,
+      operators.zipWith([10, 20], (a, b) => a * b),
+      operators.toArray,
+    ),
+    [10, 40],
+  );
+  assertEquals(
+    pipe(items, operators.chain([4]), operators.toArray),
+    [1, 2, 3, 4],
+  );
+  assertEquals(
+    pipe(items, operators.interleave([9, 9]), operators.toArray),
+    [1, 9, 2, 9, 3],
+  );
+  assertEquals(
+    pipe(items, operators.flatMap((x) => [x, -x]), operators.toArray),
+    [1, -1, 2, -2, 3, -3],
+  );
+  assertEquals(pipe([[1], [2, 3]], operators.flatten, operators.toArray), [
+    1,
+    2,
+    3,
+  ]);
+  assertEquals(
+    pipe([[1, "a"], [2, "b"]] as Array<[number, string]>, operators.unzip),
+    [
+      [1, 2],
+      ["a", "b"],
+    ],
+  );
+});
@@ -0,0 +1,126 @@
+import { none, type Option, some } from "../option.ts";
+
+type Slot<T> = { value: T } | undefined;
+
+/**
+ * A stateful view over a double-ended sequence that can be consumed from
+ * both ends at once. The two ends share one remaining count, so they meet
+ * in the middle without ever yielding an item twice.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { iter, none, some } from "@blazes/iter";
+ *
+ * const cursor = iter([1, 2, 3, 4]).cursor();
+ * assertEquals(cursor.next(), some(1));
+ * assertEquals(cursor.nextBack(), some(4));
+ * assertEquals(cursor.peekBack(), some(3));
+ * assertEquals([...cursor], [2, 3]);
+ * assertEquals(cursor.next(), none);
+ * ```
+ */
+export class Cursor<T> implements Disposable {
+  protected _front: Iterator<T>;
+  protected _back: Iterator<T>;
+  protected _remaining: number;
+  protected _frontSlot: Slot<T>;
+  protected _backSlot: Slot<T>;
+
+  constructor(front: Iterator<T>, back: Iterator<T>, len: number) {
+    this._front = front;
+    this._back = back;
+    this._remaining = len;
+  }
+
+  *[Symbol.iterator](): Generator<T> {
+    for (let item = this.next(); item.isSome(); item = this.next()) {
+      yield item.value;
+    }
+  }
+
+  /** Stops both ends early, closing the passes they read from. */
+  [Symbol.dispose](): void {
+    if (this._remaining === 0) return;
+    this._remaining = 0;
+    this._frontSlot = undefined;
+    this._backSlot = undefined;
+    this._close();
+  }
+
+  /** Number of items left between the two ends. */
+  len(): number {
+    return this._remaining;
+  }
+
+  next(): Option<T> {
+    const slot = this._peekSlot("front");
+    if (slot === undefined) return none;
+    this._frontSlot = undefined;
+    if (this._backSlot === slot) this._backSlot = undefined;
+    this._consume();
+    return some(slot.value);
+  }
+
+  nextBack(): Option<T> {
+    const slot = this._peekSlot("back");
+    if (slot === undefined) return none;
+    this._backSlot = undefined;
+    if (this._frontSlot === slot) this._frontSlot = undefined;
+    this._consume();
+    return some(slot.value);
+  }
+
+  peek(): Option<T> {
+    const slot = this._peekSlot("front");
+    return slot === undefined ? none : some(slot.value);
+  }
+
+  peekBack(): Option<T> {
+    const slot = this._peekSlot("back");
+    return slot === undefined ? none : some(slot.value);
+  }
+
+  /** Drops `n` items from the front and returns the one after them. */
+  nth(n: number): Option<T> {
+    for (let i = 0; i < n && this._remaining > 0; i++) this.next();
+    return this.next();
+  }
+
+  /** Drops `n` items from the back and returns the one before them. */
+  nthBack(n: number): Option<T> {
+    for (let i = 0; i < n && this._remaining > 0; i++) this.nextBack();
+    return this.nextBack();
+  }
+
+  // Buffers the next item of one end. When a single item is left and the
+  // other end already buffered it, both ends share that slot.
+  protected _peekSlot(end: "front" | "back"): Slot<T> {
+    if (this._remaining === 0) return undefined;
+    const own = end === "front" ? this._frontSlot : this._backSlot;
+    if (own !== undefined) return own;
+    const other = end === "front" ? this._backSlot : this._frontSlot;
+    if (this._remaining === 1 && other !== undefined) return other;
+
+    const result = (end === "front" ? this._front : this._back).next();
+    if (result.done) {
+      this._remaining = 0;
+      this._close();
+      return undefined;
+    }
+    const slot = { value: result.value };
+    if (end === "front") this._frontSlot = slot;
+    else this._backSlot = slot;
+    return slot;
+  }
+
+  protected _consume() {
+    this._remaining--;
+    if (this._remaining === 0) this._close();
+  }
+
+  protected _close() {
+    this._front.return?.();
+    this._back.return?.();
+  }
+}
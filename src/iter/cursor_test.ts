@@ -0,0 +1,26 @@
+import { assertEquals } from "@std/assert";
+import { none, some } from "../option.ts";
+import { iter } from "./mod.ts";
+
+Deno.test("Cursor tells an undefined item from the end", () => {
+  const cursor = iter([undefined, 1]).cursor();
+  assertEquals(cursor.peek(), some(undefined));
+  assertEquals(cursor.next(), some(undefined));
+  assertEquals(cursor.nextBack(), some(1));
+  assertEquals(cursor.next(), none);
+  assertEquals(cursor.peekBack(), none);
+});
+
+Deno.test("Cursor.nth and Cursor.nthBack match Iter.nth", () => {
+  const items = [1, 2, 3, 4, 5];
+  for (let n = 0; n <= items.length; n++) {
+    assertEquals(iter(items).cursor().nth(n), iter(items).nth(n));
+    assertEquals(iter(items).cursor().nthBack(n), iter(items).rev().nth(n));
+  }
+});
+
+Deno.test("at() returns an Option on every random-access iterator", () => {
+  assertEquals(iter([undefined]).at(0), some(undefined));
+  assertEquals(iter([1, 2]).at(2), none);
+  assertEquals(iter([1, 2]).permutations().at(-1), some([2, 1]));
+});
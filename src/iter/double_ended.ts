@@ -1,16 +1,38 @@
-import type { GenFn, Predicate } from "../types.ts";
+import type { Option, Result } from "../option.ts";
+import type { GenFn } from "../types.ts";
+import { Cursor } from "./cursor.ts";
 import { ExactSizedIter } from "./exact_sized.ts";
+import type { Iter } from "./iter.ts";
 import {
-  cycle,
+  chain,
+  chunks,
+  chunksBack,
+  chunksExact,
   enumerate,
-  filter,
+  enumerateBack,
   map,
+  mapBack,
+  nth,
+  onFinally,
+  pairwise,
+  pairwiseBack,
   skip,
-  skipWhile,
+  stepBy,
   take,
-  takeWhile,
+  toCount,
+  tryMap,
+  windows,
+  windowsBack,
+  zipWith,
 } from "./utils.ts";
 
+/**
+ * An exact-sized iterator that can also be walked from the back.
+ *
+ * `_rgen` must yield exactly the items of `_gen` in reverse order, so
+ * positional combinators (`take`, `skip`, `enumerate`) translate their
+ * position into the reversed sequence instead of applying it as-is.
+ */
 export class DoubleEndedIter<T> extends ExactSizedIter<T> {
   _rgen: GenFn<T>;
   constructor(gen: GenFn<T>, rgen: GenFn<T>, len: number) {
@@ -22,63 +44,147 @@ export class DoubleEndedIter<T> extends ExactSizedIter<T> {
     return new DoubleEndedIter(this._rgen, this._gen, this._len);
   }
 
-  override map<U>(fn: (item: T) => U) {
+  /** Opens a cursor that can take items from both ends of one pass. */
+  cursor(): Cursor<T> {
+    return new Cursor(this._gen(), this._rgen(), this._len);
+  }
+
+  override map<U>(fn: (item: T, index: number) => U): DoubleEndedIter<U> {
     return new DoubleEndedIter(
       map(fn)(this._gen),
-      map(fn)(this._rgen),
+      mapBack(this._len, fn)(this._rgen),
       this._len,
     );
   }
 
-  override filter(fn: (item: T) => boolean) {
+  override tryMap<U, E = unknown>(
+    fn: (item: T) => U,
+  ): DoubleEndedIter<Result<U, E>> {
     return new DoubleEndedIter(
-      filter(fn)(this._gen),
-      filter(fn)(this._rgen),
+      tryMap<T, U, E>(fn)(this._gen),
+      tryMap<T, U, E>(fn)(this._rgen),
       this._len,
     );
   }
 
-  override take(n: number) {
-    return new DoubleEndedIter(
-      take<T>(n)(this._gen),
-      take<T>(n)(this._rgen),
-      n,
-    );
+  override last(): Option<T> {
+    return nth<T>(0)(this._rgen);
   }
 
-  override takeWhile(fn: Predicate<T>) {
+  override onFinally(fn: () => void): DoubleEndedIter<T> {
     return new DoubleEndedIter(
-      takeWhile(fn)(this._gen),
-      takeWhile(fn)(this._rgen),
+      onFinally<T>(fn)(this._gen),
+      onFinally<T>(fn)(this._rgen),
       this._len,
     );
   }
 
-  override skip(n: number) {
+  override take(n: number): DoubleEndedIter<T> {
+    const len = Math.min(toCount(n), this._len);
     return new DoubleEndedIter(
-      skip<T>(n)(this._gen),
-      skip<T>(n)(this._rgen),
-      this._len - n,
+      take<T>(len)(this._gen),
+      skip<T>(this._len - len)(this._rgen), // 🔹 The first `len` items, from the back
+      len,
     );
   }
 
-  override skipWhile(fn: Predicate<T>) {
+  override skip(n: number): DoubleEndedIter<T> {
+    const len = Math.max(0, this._len - toCount(n));
     return new DoubleEndedIter(
-      skipWhile(fn)(this._gen),
-      skipWhile(fn)(this._rgen),
-      this._len,
+      skip<T>(this._len - len)(this._gen),
+      take<T>(len)(this._rgen), // 🔹 Everything but the first `n` items, from the back
+      len,
     );
   }
 
-  override enumerate() {
+  override enumerate(): DoubleEndedIter<[number, T]> {
     return new DoubleEndedIter(
       enumerate(this._gen),
-      enumerate(this._rgen),
+      enumerateBack<T>(this._len)(this._rgen),
       this._len,
     );
   }
 
-  override cycle() {
-    return new DoubleEndedIter(cycle(this._gen), cycle(this._rgen), this._len);
+  override zip<U>(other: DoubleEndedIter<U>): DoubleEndedIter<[T, U]>;
+  override zip<U>(other: ExactSizedIter<U>): ExactSizedIter<[T, U]>;
+  override zip<U>(other: Iterable<U>): Iter<[T, U]>;
+  override zip<U>(other: Iterable<U>): Iter<[T, U]> {
+    return this.zipWith(other, (a, b): [T, U] => [a, b]);
+  }
+
+  override zipWith<U, R>(
+    other: DoubleEndedIter<U>,
+    fn: (a: T, b: U) => R,
+  ): DoubleEndedIter<R>;
+  override zipWith<U, R>(
+    other: ExactSizedIter<U>,
+    fn: (a: T, b: U) => R,
+  ): ExactSizedIter<R>;
+  override zipWith<U, R>(other: Iterable<U>, fn: (a: T, b: U) => R): Iter<R>;
+  override zipWith<U, R>(other: Iterable<U>, fn: (a: T, b: U) => R): Iter<R> {
+    if (!(other instanceof DoubleEndedIter)) return super.zipWith(other, fn);
+    const len = Math.min(this._len, other._len);
+    return new DoubleEndedIter(
+      zipWith(other._gen, fn)(this._gen),
+      // 🔹 Drop the longer side's excess tail so both ends line up
+      zipWith(skip<U>(other._len - len)(other._rgen), fn)(
+        skip<T>(this._len - len)(this._rgen),
+      ),
+      len,
+    );
+  }
+
+  override chain(other: DoubleEndedIter<T>): DoubleEndedIter<T>;
+  override chain(other: ExactSizedIter<T>): ExactSizedIter<T>;
+  override chain(other: Iterable<T>): Iter<T>;
+  override chain(other: Iterable<T>): Iter<T> {
+    if (!(other instanceof DoubleEndedIter)) return super.chain(other);
+    return new DoubleEndedIter(
+      chain(other._gen)(this._gen),
+      chain(this._rgen)(other._rgen),
+      this._len + other._len,
+    );
+  }
+
+  override windows(n: number): DoubleEndedIter<Array<T>> {
+    return new DoubleEndedIter(
+      windows<T>(n)(this._gen),
+      windowsBack<T>(n)(this._rgen),
+      Math.max(0, this._len - n + 1),
+    );
+  }
+
+  override chunks(n: number): DoubleEndedIter<Array<T>> {
+    return new DoubleEndedIter(
+      chunks<T>(n)(this._gen),
+      chunksBack<T>(n, this._len)(this._rgen),
+      Math.ceil(this._len / n),
+    );
+  }
+
+  override chunksExact(n: number): DoubleEndedIter<Array<T>> {
+    return new DoubleEndedIter(
+      chunksExact<T>(n)(this._gen),
+      // 🔹 The remainder sits at the back, so skip it before chunking
+      chunksBack<T>(n, 0)(skip<T>(this._len % n)(this._rgen)),
+      Math.floor(this._len / n),
+    );
+  }
+
+  override pairwise(): DoubleEndedIter<[T, T]> {
+    return new DoubleEndedIter(
+      pairwise(this._gen),
+      pairwiseBack(this._rgen),
+      Math.max(0, this._len - 1),
+    );
+  }
+
+  override stepBy(n: number): DoubleEndedIter<T> {
+    const last = Math.floor((this._len - 1) / n) * n;
+    return new DoubleEndedIter(
+      stepBy<T>(n)(this._gen),
+      stepBy<T>(n)(skip<T>(this._len - 1 - last)(this._rgen)),
+      Math.ceil(this._len / n),
+    );
   }
 }
@@ -0,0 +1,194 @@
+import { assert, assertEquals } from "@std/assert";
+import { DoubleEndedIter } from "./double_ended.ts";
+import { ExactSizedIter } from "./exact_sized.ts";
+import type { Iter } from "./iter.ts";
+import { iter } from "./mod.ts";
+import { range } from "./range.ts";
+
+// 🔹 Builds random chains of combinators and checks every one against the same
+// steps applied to an array, so `rev()` must be the forward output reversed
+
+type Step = {
+  name: string;
+  apply: (it: Iter<number>) => Iter<number>;
+  /** What the step yields when `it` yields `items`. */
+  model: (items: Array<number>, it: Iter<number>) => Array<number>;
+};
+
+/** A small seeded generator, so a failing chain can be replayed. */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sources(rand: () => number): Array<[string, Iter<number>]> {
+  const n = Math.floor(rand() * 12);
+  const items = Array.from({ length: n }, () => Math.floor(rand() * 20));
+  return [
+    ["array", iter(items)],
+    ["range", range(n).map((i) => items[i])],
+    ["float range", range(0, n / 10, 0.1)],
+    [
+      "generators",
+      new DoubleEndedIter(
+        function* () {
+          yield* items;
+        },
+        function* () {
+          yield* items.toReversed();
+        },
+        n,
+      ),
+    ],
+    ["set", iter(new Set(items))],
+    [
+      "generator",
+      iter(function* () {
+        yield* items;
+      }),
+    ],
+  ];
+}
+
+function step(rand: () => number): Step {
+  const n = Math.floor(rand() * 6);
+  const other = Array.from({ length: n }, (_, i) => 100 + i);
+  const steps: Array<Step> = [
+    {
+      name: "map",
+      apply: (it) => it.map((x) => x * 3 + 1),
+      model: (xs) => xs.map((x) => x * 3 + 1),
+    },
+    {
+      name: "map with index",
+      apply: (it) => it.map((x, i) => x * 100 + i),
+      model: (xs) => xs.map((x, i) => x * 100 + i),
+    },
+    {
+      name: "enumerate",
+      apply: (it) => it.enumerate().map(([i, x]) => x * 100 + i),
+      model: (xs) => xs.map((x, i) => x * 100 + i),
+    },
+    {
+      name: "filter",
+      apply: (it) => it.filter((x) => x % 2 === 0),
+      model: (xs) => xs.filter((x) => x % 2 === 0),
+    },
+    {
+      name: `take(${n})`,
+      apply: (it) => it.take(n),
+      model: (xs) => xs.slice(0, n),
+    },
+    {
+      name: `skip(${n})`,
+      apply: (it) => it.skip(n),
+      model: (xs) => xs.slice(n),
+    },
+    {
+      name: "takeWhile",
+      apply: (it) => it.takeWhile((x) => x % 7 !== 3),
+      model: (xs) => {
+        const end = xs.findIndex((x) => x % 7 === 3);
+        return end === -1 ? xs : xs.slice(0, end);
+      },
+    },
+    {
+      name: "skipWhile",
+      apply: (it) => it.skipWhile((x) => x % 7 !== 3),
+      model: (xs) => {
+        const start = xs.findIndex((x) => x % 7 === 3);
+        return start === -1 ? [] : xs.slice(start);
+      },
+    },
+    {
+      name: `stepBy(${n + 1})`,
+      apply: (it) => it.stepBy(n + 1),
+      model: (xs) => xs.filter((_, i) => i % (n + 1) === 0),
+    },
+    {
+      name: `chain(${n})`,
+      apply: (it) => it.chain(iter(other)),
+      model: (xs) => [...xs, ...other],
+    },
+    {
+      name: `zip(${n})`,
+      apply: (it) => it.zip(iter(other)).map(([a, b]) => a + b),
+      model: (xs) => xs.slice(0, other.length).map((x, i) => x + other[i]),
+    },
+    {
+      // 🔹 Only double-ended chains can be reversed; others pass through
+      name: "rev",
+      apply: (it) => it instanceof DoubleEndedIter ? it.rev() : it,
+      model: (xs, it) => it instanceof DoubleEndedIter ? xs.toReversed() : xs,
+    },
+  ];
+  return steps[Math.floor(rand() * steps.length)];
+}
+
+function check(it: Iter<number>, expected: Array<number>, chain: string) {
+  const message = `after ${chain}`;
+  assertEquals([...it], expected, message);
+  assertEquals(it.count(), expected.length, message);
+  assertEquals(
+    it.fold(0, (sum, x) => sum + x),
+    expected.reduce((a, b) => a + b, 0),
+    message,
+  );
+  const [lower, upper] = it.sizeHint();
+  assert(lower <= expected.length, `lower bound ${message}`);
+  assert(
+    upper === undefined || expected.length <= upper,
+    `upper bound ${message}`,
+  );
+  if (it instanceof ExactSizedIter) {
+    assertEquals(it.len(), expected.length, message);
+  }
+  if (!(it instanceof DoubleEndedIter)) return;
+
+  assertEquals([...it.rev()], expected.toReversed(), `rev ${message}`);
+  assertEquals([...it.rev().rev()], expected, `rev rev ${message}`);
+  const cursor = it.cursor();
+  const front: Array<number> = [];
+  const back: Array<number> = [];
+  for (let i = 0; cursor.len() > 0; i++) {
+    if (i % 2 === 0) front.push(cursor.next().unwrap());
+    else back.push(cursor.nextBack().unwrap());
+  }
+  assertEquals([...front, ...back.toReversed()], expected, `cursor ${message}`);
+}
+
+Deno.test("rev() after any chain is the forward output reversed", () => {
+  const rand = random(20241019);
+  // 🔹 500 chains over each of the six sources
+  for (let run = 0; run < 500; run++) {
+    const steps = Array.from(
+      { length: 1 + Math.floor(rand() * 5) },
+      () => step(rand),
+    );
+    for (const [name, source] of sources(rand)) {
+      let it = source;
+      let expected = [...source];
+      const names = [name];
+      for (const { name, apply, model } of steps) {
+        names.push(name);
+        expected = model(expected, it);
+        it = apply(it);
+        check(it, expected, names.join(" → "));
+      }
+    }
+  }
+});
+
+Deno.test("enumerate().rev() keeps the forward indices", () => {
+  assertEquals([...iter(["a", "b", "c"]).enumerate().rev()], [
+    [2, "c"],
+    [1, "b"],
+    [0, "a"],
+  ]);
+  assertEquals([...iter([1, 2, 3, 4]).take(2).rev()], [2, 1]);
+  assertEquals([...iter([1, 2, 3, 4]).skip(1).rev()], [4, 3, 2]);
+});
@@ -1,26 +1,42 @@
-import type { GenFn, Predicate } from "../types.ts";
-import { Iter } from "./iter.ts";
+import type { Result } from "../option.ts";
+import type { Comparator, GenFn } from "../types.ts";
+import { Iter, registerTiers } from "./iter.ts";
 import {
-  cycle,
+  bottomK,
+  cache,
+  chain,
+  chunks,
+  chunksExact,
   enumerate,
-  filter,
+  interleave,
   map,
+  oneShot,
+  onFinally,
+  pairwise,
+  scan,
   skip,
-  skipWhile,
+  sorted,
+  sortedBy,
+  stepBy,
   take,
-  takeWhile,
+  tee,
+  toCount,
+  topK,
+  tryMap,
+  windows,
+  zipWith,
 } from "./utils.ts";
 
 export class ExactSizedIter<T> extends Iter<T> {
   protected _len: number;
   constructor(gen: GenFn<T>, len: number) {
-    super(gen);
+    super(gen, [len, len]);
     this._len = len;
   }
 
-  override *[Symbol.iterator]() {
+  override *[Symbol.iterator](): Generator<T> {
     let i = 0;
-    for (const item of this._gen()) {
+    for (const item of super[Symbol.iterator]()) {
       if (i === this._len) break;
       yield item;
       i++;
@@ -31,33 +47,148 @@ export class ExactSizedIter<T> extends Iter<T> {
     return this._len;
   }
 
-  override map<U>(fn: (item: T) => U) {
+  override map<U>(fn: (item: T, index: number) => U): ExactSizedIter<U> {
     return new ExactSizedIter(map(fn)(this._gen), this._len);
   }
-  override filter(fn: (item: T) => boolean) {
-    return new ExactSizedIter(filter(fn)(this._gen), this._len);
+
+  override tryMap<U, E = unknown>(
+    fn: (item: T) => U,
+  ): ExactSizedIter<Result<U, E>> {
+    return new ExactSizedIter(tryMap<T, U, E>(fn)(this._gen), this._len);
   }
-  override take(n: number) {
-    return new ExactSizedIter(take<T>(n)(this._gen), n);
+
+  override cache(): ExactSizedIter<T> {
+    return new ExactSizedIter(cache(this._gen), this._len);
   }
 
-  override takeWhile(fn: Predicate<T>) {
-    return new ExactSizedIter(takeWhile(fn)(this._gen), this._len);
+  override tee(n: number): Array<ExactSizedIter<T>> {
+    return tee<T>(n)(this._gen).map((gen) =>
+      new ExactSizedIter(gen, this._len)
+    );
   }
 
-  override skip(n: number) {
-    return new ExactSizedIter(skip<T>(n)(this._gen), this._len - n);
+  override oneShot(): ExactSizedIter<T> {
+    return new ExactSizedIter(oneShot(this._gen), this._len);
   }
 
-  override skipWhile(fn: Predicate<T>) {
-    return new ExactSizedIter(skipWhile(fn)(this._gen), this._len);
+  override onFinally(fn: () => void): ExactSizedIter<T> {
+    return new ExactSizedIter(onFinally<T>(fn)(this._gen), this._len);
   }
 
-  override enumerate() {
+  override take(n: number): ExactSizedIter<T> {
+    return new ExactSizedIter(
+      take<T>(n)(this._gen),
+      Math.min(toCount(n), this._len),
+    );
+  }
+
+  override skip(n: number): ExactSizedIter<T> {
+    return new ExactSizedIter(
+      skip<T>(n)(this._gen),
+      Math.max(0, this._len - toCount(n)),
+    );
+  }
+
+  override enumerate(): ExactSizedIter<[number, T]> {
     return new ExactSizedIter(enumerate(this._gen), this._len);
   }
 
-  override cycle() {
-    return new ExactSizedIter(cycle(this._gen), this._len);
+  override zip<U>(other: ExactSizedIter<U>): ExactSizedIter<[T, U]>;
+  override zip<U>(other: Iterable<U>): Iter<[T, U]>;
+  override zip<U>(other: Iterable<U>): Iter<[T, U]> {
+    return this.zipWith(other, (a, b): [T, U] => [a, b]);
+  }
+
+  override zipWith<U, R>(
+    other: ExactSizedIter<U>,
+    fn: (a: T, b: U) => R,
+  ): ExactSizedIter<R>;
+  override zipWith<U, R>(other: Iterable<U>, fn: (a: T, b: U) => R): Iter<R>;
+  override zipWith<U, R>(other: Iterable<U>, fn: (a: T, b: U) => R): Iter<R> {
+    if (!(other instanceof ExactSizedIter)) return super.zipWith(other, fn);
+    return new ExactSizedIter(
+      zipWith(other._gen, fn)(this._gen),
+      Math.min(this._len, other._len),
+    );
+  }
+
+  override chain(other: ExactSizedIter<T>): ExactSizedIter<T>;
+  override chain(other: Iterable<T>): Iter<T>;
+  override chain(other: Iterable<T>): Iter<T> {
+    if (!(other instanceof ExactSizedIter)) return super.chain(other);
+    return new ExactSizedIter(
+      chain(other._gen)(this._gen),
+      this._len + other._len,
+    );
+  }
+
+  override interleave(other: ExactSizedIter<T>): ExactSizedIter<T>;
+  override interleave(other: Iterable<T>): Iter<T>;
+  override interleave(other: Iterable<T>): Iter<T> {
+    if (!(other instanceof ExactSizedIter)) return super.interleave(other);
+    return new ExactSizedIter(
+      interleave(other._gen)(this._gen),
+      this._len + other._len,
+    );
+  }
+
+  override windows(n: number): ExactSizedIter<Array<T>> {
+    return new ExactSizedIter(
+      windows<T>(n)(this._gen),
+      Math.max(0, this._len - n + 1),
+    );
+  }
+
+  override chunks(n: number): ExactSizedIter<Array<T>> {
+    return new ExactSizedIter(
+      chunks<T>(n)(this._gen),
+      Math.ceil(this._len / n),
+    );
+  }
+
+  override chunksExact(n: number): ExactSizedIter<Array<T>> {
+    return new ExactSizedIter(
+      chunksExact<T>(n)(this._gen),
+      Math.floor(this._len / n),
+    );
+  }
+
+  override pairwise(): ExactSizedIter<[T, T]> {
+    return new ExactSizedIter(pairwise(this._gen), Math.max(0, this._len - 1));
+  }
+
+  override scan<U>(init: U, fn: (acc: U, item: T) => U): ExactSizedIter<U> {
+    return new ExactSizedIter(scan(init, fn)(this._gen), this._len);
+  }
+
+  override stepBy(n: number): ExactSizedIter<T> {
+    return new ExactSizedIter(
+      stepBy<T>(n)(this._gen),
+      Math.ceil(this._len / n),
+    );
+  }
+
+  override sorted(cmp?: Comparator<T>): ExactSizedIter<T> {
+    return new ExactSizedIter(sorted(cmp)(this._gen), this._len);
+  }
+
+  override sortedBy<K>(fn: (item: T) => K): ExactSizedIter<T> {
+    return new ExactSizedIter(sortedBy(fn)(this._gen), this._len);
+  }
+
+  override topK(k: number, cmp?: Comparator<T>): ExactSizedIter<T> {
+    return new ExactSizedIter(
+      topK(k, cmp)(this._gen),
+      Math.min(toCount(k), this._len),
+    );
+  }
+
+  override bottomK(k: number, cmp?: Comparator<T>): ExactSizedIter<T> {
+    return new ExactSizedIter(
+      bottomK(k, cmp)(this._gen),
+      Math.min(toCount(k), this._len),
+    );
   }
 }
+
+registerTiers({ ExactSizedIter });
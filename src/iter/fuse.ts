@@ -0,0 +1,88 @@
+import type { GenFn } from "../types.ts";
+
+/** Returned by a step to drop the current item. */
+export const SKIP: unique symbol = Symbol("skip");
+
+/** State shared by every stage of one pass over a pipeline. */
+export type Run = {
+  /** Set by a stage to end the pass once the current item is handled. */
+  done: boolean;
+};
+
+export type Step<T, U> = (item: T) => U | typeof SKIP;
+
+/**
+ * Creates the step function for one pass. Called once per pass, so any
+ * counters a stage keeps start fresh every time the pipeline is iterated.
+ */
+export type Stage<T, U> = (run: Run) => Step<T, U>;
+
+type Pipeline<T> = {
+  source: GenFn<unknown>;
+  stage: Stage<unknown, T>;
+};
+
+const pipelines = new WeakMap<GenFn<unknown>, Pipeline<unknown>>();
+
+/**
+ * Appends `stage` to `gen`. When `gen` is itself a fused pipeline, the two
+ * stages are composed into one step over the original source, so a chain of
+ * `map`/`filter`/`take`/... resumes a single generator per item instead of
+ * one per combinator.
+ */
+export function fuse<T, U>(gen: GenFn<T>, stage: Stage<T, U>): GenFn<U> {
+  const base = pipelines.get(gen) as Pipeline<T> | undefined;
+  const source = base?.source ?? gen;
+  const composed = (base ? compose(base.stage, stage) : stage) as Stage<
+    unknown,
+    U
+  >;
+
+  const fused = function* () {
+    const run: Run = { done: false };
+    const step = composed(run);
+    if (run.done) return;
+    for (const item of source()) {
+      const out = step(item);
+      if (out !== SKIP) yield out;
+      if (run.done) return;
+    }
+  };
+  pipelines.set(fused, { source, stage: composed } as Pipeline<unknown>);
+  return fused;
+}
+
+/**
+ * Pushes every item of `gen` into `sink` until the sink returns `true`.
+ * Fused pipelines are run as a plain loop, without creating a generator.
+ */
+export function drain<T>(gen: GenFn<T>, sink: (item: T) => boolean): void {
+  const pipeline = pipelines.get(gen) as Pipeline<T> | undefined;
+  if (pipeline === undefined) {
+    for (const item of gen()) if (sink(item)) return;
+    return;
+  }
+
+  const run: Run = { done: false };
+  const step = pipeline.stage(run);
+  if (run.done) return;
+  for (const item of pipeline.source()) {
+    const out = step(item);
+    if (out !== SKIP && sink(out)) return;
+    if (run.done) return;
+  }
+}
+
+function compose<A, B, C>(
+  first: Stage<A, B>,
+  second: Stage<B, C>,
+): Stage<A, C> {
+  return (run) => {
+    const a = first(run);
+    const b = second(run);
+    return (item) => {
+      const out = a(item);
+      return out === SKIP ? SKIP : b(out);
+    };
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * A binary heap that keeps the item for which `before` holds against every
+ * other item at the top.
+ */
+export class Heap<T> {
+  protected _items: Array<T> = [];
+  protected _before: (a: T, b: T) => boolean;
+
+  constructor(before: (a: T, b: T) => boolean) {
+    this._before = before;
+  }
+
+  get size(): number {
+    return this._items.length;
+  }
+
+  /** The items in heap order, not sorted. */
+  items(): Array<T> {
+    return this._items;
+  }
+
+  peek(): T | undefined {
+    return this._items[0];
+  }
+
+  push(item: T): void {
+    this._items.push(item);
+    this._up(this._items.length - 1);
+  }
+
+  pop(): T | undefined {
+    const items = this._items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0) {
+      items[0] = last!;
+      this._down(0);
+    }
+    return top;
+  }
+
+  /** Swaps the top for `item`, cheaper than a `pop` followed by a `push`. */
+  replaceTop(item: T): void {
+    this._items[0] = item;
+    this._down(0);
+  }
+
+  protected _up(i: number) {
+    const items = this._items;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this._before(items[i], items[parent])) return;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  protected _down(i: number) {
+    const items = this._items;
+    while (true) {
+      let top = i;
+      for (const child of [2 * i + 1, 2 * i + 2]) {
+        if (child < items.length && this._before(items[child], items[top])) {
+          top = child;
+        }
+      }
+      if (top === i) return;
+      [items[i], items[top]] = [items[top], items[i]];
+      i = top;
+    }
+  }
+}
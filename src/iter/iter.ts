@@ -1,103 +1,808 @@
-import type { GenFn, Predicate } from "../types.ts";
-import { ExactSizedIter } from "./exact_sized.ts";
+import type { Option, Result } from "../option.ts";
+import type {
+  AbortOptions,
+  Comparator,
+  GenFn,
+  Iterables,
+  Predicate,
+  SizeHint,
+} from "../types.ts";
+import { AsyncIter } from "./async_iter.ts";
+import type { Collector } from "./collect.ts";
+import type {
+  cartesianProduct,
+  combinations,
+  combinationsWithReplacement,
+  CombinatoricIter,
+  permutations,
+  powerset,
+} from "./combinatorics.ts";
+import type { ExactSizedIter } from "./exact_sized.ts";
+import { gen } from "./gen.ts";
+import { parMap, type ParMapOptions } from "./parallel.ts";
+import type { RandomAccessIter } from "./random_access.ts";
 import {
+  chainHint,
+  dropHint,
+  mapHint,
+  skipHint,
+  takeHint,
+  zipHint,
+} from "./size_hint.ts";
+import {
+  abortable,
   all,
   any,
+  bottomK,
+  cache,
+  chain,
+  chunkBy,
+  chunks,
+  chunksExact,
+  collectResult,
+  compare,
   count,
   cycle,
+  dedup,
   enumerate,
   every,
   filter,
+  filterMap,
   find,
+  flatMap,
+  flatten,
   fold,
   forEach,
+  groupBy,
+  groupJoin,
+  hashJoin,
+  interleave,
+  isSorted,
+  last,
   map,
+  max,
+  mergeSorted,
+  min,
+  minMax,
+  nth,
+  oneShot,
+  onFinally,
+  pairwise,
+  position,
   reduce,
+  scan,
+  semiJoin,
+  share,
   skip,
   skipWhile,
   some,
+  sorted,
+  sortedBy,
+  stepBy,
   take,
+  takeUntilAborted,
   takeWhile,
+  tee,
+  toCount,
+  topK,
+  tryMap,
+  unique,
+  uniqueBy,
+  unzip,
+  windows,
+  zipWith,
 } from "./utils.ts";
 
-export class Iter<T> {
+/**
+ * What `Iter`'s own methods build from the modules that extend it. Those
+ * modules register it when they load, so this one never imports them at run
+ * time and each of them can be loaded on its own.
+ */
+type Tiers = {
+  ExactSizedIter: typeof ExactSizedIter;
+  RandomAccessIter: typeof RandomAccessIter;
+  cartesianProduct: typeof cartesianProduct;
+  combinations: typeof combinations;
+  combinationsWithReplacement: typeof combinationsWithReplacement;
+  permutations: typeof permutations;
+  powerset: typeof powerset;
+};
+
+const tiers = {} as Tiers;
+
+/** Called by the modules extending `Iter` with what they define. */
+export function registerTiers(entries: Partial<Tiers>): void {
+  Object.assign(tiers, entries);
+}
+
+export class Iter<T> implements Disposable {
   protected _gen: GenFn<T>;
+  protected _hint: SizeHint;
+  /** Passes started through `Symbol.iterator` that have not ended yet. */
+  protected _open: Set<Generator<T>> = new Set();
 
-  constructor(gen: GenFn<T>) {
+  constructor(gen: GenFn<T>, hint: SizeHint = [0, undefined]) {
     this._gen = gen;
+    this._hint = hint;
+  }
+
+  *[Symbol.iterator](): Generator<T> {
+    const pass = this._gen();
+    this._open.add(pass);
+    try {
+      yield* pass;
+    } finally {
+      this._open.delete(pass);
+    }
+  }
+
+  /**
+   * Closes every pass still open over this iterator, which runs the `finally`
+   * blocks of its sources, such as the ones releasing file handles.
+   */
+  [Symbol.dispose](): void {
+    for (const pass of this._open) pass.return(undefined);
+    this._open.clear();
+    // 🔹 A run shared between passes, as in `cache()`, is released as well
+    (this._gen as Partial<Disposable>)[Symbol.dispose]?.();
+  }
+
+  /**
+   * Bounds on the number of items left, as `[lower, upper]`.
+   * An `undefined` upper bound means the length is unknown or infinite.
+   */
+  sizeHint(): SizeHint {
+    return [...this._hint];
+  }
+
+  /** Maps every item, passing `fn` its index like native iterator helpers. */
+  map<U>(fn: (item: T, index: number) => U): Iter<U> {
+    return new Iter(map(fn)(this._gen), this.sizeHint());
+  }
+
+  /**
+   * Maps items on a pool of Web Workers with the default export of the module
+   * at `task`, an absolute URL. Items and results are passed by structured
+   * clone, and at most two chunks per worker are read ahead.
+   *
+   * @example
+   * ```ts ignore
+   * // hash.ts: export default (bytes: Uint8Array) => expensiveHash(bytes);
+   * const task = new URL("./hash.ts", import.meta.url);
+   * for await (const hash of iter(images).parMap<string>(task, { workers: 4 })) {
+   *   console.log(hash);
+   * }
+   * ```
+   */
+  parMap<U>(task: URL | string, options?: ParMapOptions): AsyncIter<U> {
+    const gen = this._gen;
+    return new AsyncIter(
+      parMap<T, U>(task, options)(async function* () {
+        yield* gen();
+      }),
+    );
+  }
+
+  /**
+   * Runs the source once and replays it: later passes, such as `fold` after
+   * `count`, read the recorded items instead of running the source again.
+   * The source stays open between passes until it runs out or this iterator
+   * is disposed.
+   */
+  cache(): Iter<T> {
+    return new Iter(cache(this._gen), this.sizeHint());
+  }
+
+  /**
+   * Splits one run of the source into `n` iterators that each yield every
+   * item, buffering only what the slowest of them has not read yet. Each of
+   * them can be iterated once. The source is closed once every one of them
+   * has ended or been disposed.
+   */
+  tee(n: number): Array<Iter<T>> {
+    return tee<T>(n)(this._gen).map((gen) => new Iter(gen, this.sizeHint()));
+  }
+
+  /**
+   * Runs the source once for every pass, so each pass continues where the
+   * previous one stopped and items are split between consumers. The source
+   * stays open between passes until it runs out or this iterator is disposed.
+   */
+  share(): Iter<T> {
+    return new Iter(share(this._gen), dropHint(this.sizeHint()));
+  }
+
+  /** Throws when iterated a second time, instead of running the source again. */
+  oneShot(): Iter<T> {
+    return new Iter(oneShot(this._gen), this.sizeHint());
+  }
+
+  /** Runs `fn` whenever a pass ends: when exhausted, stopped early or failed. */
+  onFinally(fn: () => void): Iter<T> {
+    return new Iter(onFinally<T>(fn)(this._gen), this.sizeHint());
+  }
+
+  filter(fn: (item: T, index: number) => boolean): Iter<T> {
+    return new Iter(filter(fn)(this._gen), dropHint(this.sizeHint()));
   }
 
-  *[Symbol.iterator]() {
-    yield* this._gen();
+  /** Maps every item to an `Option`, keeping the values of the `Some`s. */
+  filterMap<U>(fn: (item: T) => Option<U>): Iter<U> {
+    return new Iter(filterMap(fn)(this._gen), dropHint(this.sizeHint()));
   }
 
-  map<U>(fn: (item: T) => U) {
-    return new Iter(map(fn)(this._gen));
+  /** Like `map`, catching what `fn` throws as an `Err` instead of stopping. */
+  tryMap<U, E = unknown>(fn: (item: T) => U): Iter<Result<U, E>> {
+    return new Iter(tryMap<T, U, E>(fn)(this._gen), this.sizeHint());
   }
 
-  filter(fn: (item: T) => boolean) {
-    return new Iter(filter(fn)(this._gen));
+  /**
+   * Yields the first `n` items, rounding `n` toward zero.
+   *
+   * @throws {RangeError} When `n` is negative or `NaN`, like the native helper.
+   */
+  take(n: number): Iter<T> {
+    return new Iter(take<T>(n)(this._gen), takeHint(this.sizeHint(), n));
   }
 
-  take(n: number) {
-    return new ExactSizedIter(take<T>(n)(this._gen), n);
+  takeWhile(fn: Predicate<T>): Iter<T> {
+    return new Iter(takeWhile(fn)(this._gen), dropHint(this.sizeHint()));
   }
 
-  takeWhile(fn: Predicate<T>) {
-    return new Iter(takeWhile(fn)(this._gen));
+  /**
+   * Skips the first `n` items, rounding `n` toward zero, like the native
+   * `drop`.
+   *
+   * @throws {RangeError} When `n` is negative or `NaN`.
+   */
+  skip(n: number): Iter<T> {
+    return new Iter(skip<T>(n)(this._gen), skipHint(this.sizeHint(), n));
   }
 
-  skip(n: number) {
-    return new Iter(skip<T>(n)(this._gen));
+  skipWhile(fn: Predicate<T>): Iter<T> {
+    return new Iter(skipWhile(fn)(this._gen), dropHint(this.sizeHint()));
   }
 
-  skipWhile(fn: Predicate<T>) {
-    return new Iter(skipWhile(fn)(this._gen));
+  /**
+   * Ends the pass once `signal` aborts. Synchronous code only sees an abort
+   * between items, such as one raised by a callback.
+   */
+  takeUntilAborted(signal: AbortSignal): Iter<T> {
+    return new Iter(
+      takeUntilAborted<T>(signal)(this._gen),
+      dropHint(this.sizeHint()),
+    );
   }
 
-  fold<U>(init: U, fn: (acc: U, item: T) => U) {
-    return fold(init, fn)(this._gen);
+  /**
+   * Folds every item into an accumulator.
+   *
+   * Like the other terminals taking `{ signal }`, throws `signal.reason` once
+   * the signal aborts, after closing the source.
+   */
+  fold<U>(
+    init: U,
+    fn: (acc: U, item: T, index: number) => U,
+    options?: AbortOptions,
+  ): U {
+    return fold(init, fn)(abortable<T>(options?.signal)(this._gen));
   }
 
-  reduce(fn: (acc: T, item: T) => T) {
-    return reduce(fn)(this._gen);
+  /**
+   * Like `fold`, starting from the first item, so `fn` first sees index 1.
+   * Where the native `reduce` throws a `TypeError` on an empty iterator, this
+   * returns `none`.
+   */
+  reduce(
+    fn: (acc: T, item: T, index: number) => T,
+    options?: AbortOptions,
+  ): Option<T> {
+    return reduce(fn)(abortable<T>(options?.signal)(this._gen));
   }
 
-  enumerate() {
-    return new Iter(enumerate(this._gen));
+  /**
+   * Starts a pass as a native iterator, which has the built-in iterator
+   * helpers (`map`, `drop`, `toArray`, ...) where the runtime ships them.
+   */
+  toIterator(): IteratorObject<T, undefined, unknown> {
+    return this[Symbol.iterator]();
   }
 
-  count() {
-    return count()(this._gen);
+  /** Materializes every item through `collector`, such as `toArray()`. */
+  collect<A, R>(collector: Collector<T, A, R>, options?: AbortOptions): R {
+    const acc = fold(collector.init(this.sizeHint()), collector.push)(
+      abortable<T>(options?.signal)(this._gen),
+    );
+    return collector.finish(acc);
   }
 
-  cycle() {
-    return new Iter(cycle(this._gen));
+  /** Gathers the values of `Ok`s into an array, stopping at the first `Err`. */
+  collectResult<U, E>(this: Iter<Result<U, E>>): Result<Array<U>, E> {
+    return collectResult<U, E>()(this._gen);
   }
 
-  any(predicate: Predicate<T>) {
+  enumerate(): Iter<[number, T]> {
+    return new Iter(enumerate(this._gen), this.sizeHint());
+  }
+
+  count(options?: AbortOptions): number {
+    return count()(abortable<T>(options?.signal)(this._gen));
+  }
+
+  /** Repeats the items forever, or yields nothing when there are none. */
+  cycle(): InfiniteIter<T> {
+    const [lower, upper] = this.sizeHint();
+    return new InfiniteIter(
+      cycle(this._gen),
+      [lower > 0 ? Infinity : 0, upper === 0 ? 0 : undefined],
+    );
+  }
+
+  any(predicate: (item: T, index: number) => boolean): boolean {
     return any(predicate)(this._gen);
   }
 
-  all(predicate: Predicate<T>) {
+  all(predicate: (item: T, index: number) => boolean): boolean {
     return all(predicate)(this._gen);
   }
 
   /**  Alias to any */
-  some(predicate: Predicate<T>) {
+  some(predicate: (item: T, index: number) => boolean): boolean {
     return some(predicate)(this._gen);
   }
 
   /** Alias to all */
-  every(predicate: Predicate<T>) {
+  every(predicate: (item: T, index: number) => boolean): boolean {
     return every(predicate)(this._gen);
   }
 
-  find(predicate: Predicate<T>) {
-    return find(predicate)(this._gen);
+  /**
+   * The first item matching `predicate`, or `none` where the native `find`
+   * returns `undefined`.
+   */
+  find(
+    predicate: (item: T, index: number) => boolean,
+    options?: AbortOptions,
+  ): Option<T> {
+    return find(predicate)(abortable<T>(options?.signal)(this._gen));
+  }
+
+  /** The item at index `n`, found by stepping past the ones before it. */
+  nth(n: number): Option<T> {
+    return nth<T>(n)(this._gen);
+  }
+
+  last(): Option<T> {
+    return last<T>()(this._gen);
+  }
+
+  /** The index of the first item matching `predicate`. */
+  position(predicate: Predicate<T>): Option<number> {
+    return position(predicate)(this._gen);
+  }
+
+  forEach(fn: (item: T, index: number) => void, options?: AbortOptions): void {
+    return forEach(fn)(abortable<T>(options?.signal)(this._gen));
+  }
+
+  zip<U>(other: Iterable<U>): Iter<[T, U]> {
+    return this.zipWith(other, (a, b): [T, U] => [a, b]);
+  }
+
+  zipWith<U, R>(other: Iterable<U>, fn: (a: T, b: U) => R): Iter<R> {
+    return new Iter(
+      zipWith(gen(other), fn)(this._gen),
+      zipHint(this.sizeHint(), hintOf(other)),
+    );
+  }
+
+  unzip<A, B>(this: Iter<[A, B]>): [Array<A>, Array<B>] {
+    return unzip<A, B>()(this._gen);
+  }
+
+  chain(other: Iterable<T>): Iter<T> {
+    return new Iter(
+      chain(gen(other))(this._gen),
+      chainHint(this.sizeHint(), hintOf(other)),
+    );
+  }
+
+  /** Alternates items with `other`, then yields the rest of the longer one. */
+  interleave(other: Iterable<T>): Iter<T> {
+    return new Iter(
+      interleave(gen(other))(this._gen),
+      chainHint(this.sizeHint(), hintOf(other)),
+    );
+  }
+
+  /**
+   * Maps every item to an iterable or iterator and yields their items. Like
+   * the native helper, throws a `TypeError` when `fn` returns a string or
+   * another primitive.
+   */
+  flatMap<U>(
+    fn: (item: T, index: number) => Iterable<U> | Iterator<U>,
+  ): Iter<U> {
+    return new Iter(flatMap(fn)(this._gen));
+  }
+
+  flatten<U>(this: Iter<Iterable<U>>): Iter<U> {
+    return new Iter(flatten(this._gen));
+  }
+
+  /**
+   * Cartesian product with any number of sources, as tuples in which the last
+   * source varies fastest. Reads every source once, when called.
+   */
+  product<U extends Array<unknown>>(
+    ...others: Iterables<U>
+  ): CombinatoricIter<[T, ...U]>;
+  product(
+    ...others: Array<Iterable<unknown>>
+  ): CombinatoricIter<Array<unknown>> {
+    return tiers.cartesianProduct([[...this], ...others.map((o) => [...o])]);
+  }
+
+  /**
+   * Every ordering of `k` items, of all of them by default, in lexicographic
+   * order of their positions. Reads the source once, when called.
+   *
+   * @example
+   * ```ts
+   * import { assertEquals } from "@std/assert";
+   * import { iter } from "@blazes/iter";
+   *
+   * const orders = iter([1, 2, 3]).permutations(2);
+   * assertEquals(orders.len(), 6);
+   * assertEquals([...orders.take(3)], [[1, 2], [1, 3], [2, 1]]);
+   * assertEquals(orders.at(5).unwrap(), [3, 2]);
+   * ```
+   */
+  permutations(k?: number): CombinatoricIter<Array<T>> {
+    const pool = [...this];
+    return tiers.permutations(pool, k ?? pool.length);
+  }
+
+  /** Every choice of `k` items, keeping source order. Reads the source once. */
+  combinations(k: number): CombinatoricIter<Array<T>> {
+    return tiers.combinations([...this], k);
+  }
+
+  /** Like `combinations`, letting an item be chosen more than once. */
+  combinationsWithReplacement(k: number): CombinatoricIter<Array<T>> {
+    return tiers.combinationsWithReplacement([...this], k);
+  }
+
+  /**
+   * Every subset, smallest first and each in source order. Reads the source
+   * once, when called.
+   */
+  powerset(): CombinatoricIter<Array<T>> {
+    return tiers.powerset([...this]);
+  }
+
+  /** Overlapping windows of `n` consecutive items. */
+  windows(n: number): Iter<Array<T>> {
+    return new Iter(
+      windows<T>(n)(this._gen),
+      mapHint(this.sizeHint(), (len) => Math.max(0, len - n + 1)),
+    );
+  }
+
+  /** Non-overlapping chunks of `n` items; the last one may be shorter. */
+  chunks(n: number): Iter<Array<T>> {
+    return new Iter(
+      chunks<T>(n)(this._gen),
+      mapHint(this.sizeHint(), (len) => Math.ceil(len / n)),
+    );
+  }
+
+  /** Non-overlapping chunks of exactly `n` items, dropping any remainder. */
+  chunksExact(n: number): Iter<Array<T>> {
+    return new Iter(
+      chunksExact<T>(n)(this._gen),
+      mapHint(this.sizeHint(), (len) => Math.floor(len / n)),
+    );
+  }
+
+  /** Groups runs of consecutive items that share the same key. */
+  chunkBy<K>(fn: (item: T) => K): Iter<Array<T>> {
+    const [lower, upper] = this.sizeHint();
+    return new Iter(chunkBy(fn)(this._gen), [Math.min(lower, 1), upper]);
+  }
+
+  pairwise(): Iter<[T, T]> {
+    return new Iter(
+      pairwise(this._gen),
+      mapHint(this.sizeHint(), (len) => Math.max(0, len - 1)),
+    );
+  }
+
+  /**
+   * Groups items by the key `fn` returns, keys in order of first appearance.
+   * Unlike `chunkBy`, equal keys need not be adjacent, so every pass reads the
+   * whole source before yielding the first group.
+   */
+  groupBy<K>(fn: (item: T) => K): Iter<[K, Iter<T>]> {
+    const [lower, upper] = this.sizeHint();
+    return new Iter(
+      map(([key, group]: [K, Array<T>]): [K, Iter<T>] => [key, view(group)])(
+        groupBy(fn)(this._gen),
+      ),
+      [Math.min(lower, 1), upper],
+    );
+  }
+
+  /**
+   * Inner hash join, pairing every item with each item of `other` that has an
+   * equal key.
+   *
+   * Like the other joins, reads the side with the smaller known length (or
+   * `other` when neither is known) into a hash index when a pass starts, and
+   * streams the other side, whose order the results follow.
+   *
+   * @example
+   * ```ts
+   * import { assertEquals } from "@std/assert";
+   * import { iter } from "@blazes/iter";
+   *
+   * const users = [{ id: 1, name: "Ada" }, { id: 2, name: "Bob" }];
+   * const posts = [{ by: 2, title: "Hi" }, { by: 1, title: "Yo" }];
+   * const titles = iter(users)
+   *   .join(posts, (user) => user.id, (post) => post.by)
+   *   .map(([user, post]) => `${user.name}: ${post.title}`);
+   * assertEquals([...titles], ["Ada: Yo", "Bob: Hi"]);
+   * ```
+   */
+  join<U, K>(
+    other: Iterable<U>,
+    keyA: (item: T) => K,
+    keyB: (item: U) => K,
+  ): Iter<[T, U]> {
+    return new Iter(
+      map(([a, b]: [Option<T>, Option<U>]): [T, U] => [a.unwrap(), b.unwrap()])(
+        this._hashJoin(other, keyA, keyB, false, false),
+      ),
+    );
+  }
+
+  /**
+   * Like `join`, also keeping the items without a match in `other`, paired
+   * with `none`.
+   */
+  leftJoin<U, K>(
+    other: Iterable<U>,
+    keyA: (item: T) => K,
+    keyB: (item: U) => K,
+  ): Iter<[T, Option<U>]> {
+    return new Iter(
+      map(([a, b]: [Option<T>, Option<U>]): [T, Option<U>] => [a.unwrap(), b])(
+        this._hashJoin(other, keyA, keyB, true, false),
+      ),
+      [this.sizeHint()[0], undefined],
+    );
+  }
+
+  /**
+   * Like `join`, also keeping the items of either side without a match,
+   * paired with `none`.
+   */
+  fullOuterJoin<U, K>(
+    other: Iterable<U>,
+    keyA: (item: T) => K,
+    keyB: (item: U) => K,
+  ): Iter<[Option<T>, Option<U>]> {
+    return new Iter(this._hashJoin(other, keyA, keyB, true, true));
+  }
+
+  private _hashJoin<U, K>(
+    other: Iterable<U>,
+    keyA: (item: T) => K,
+    keyB: (item: U) => K,
+    keepLeft: boolean,
+    keepRight: boolean,
+  ): GenFn<[Option<T>, Option<U>]> {
+    const indexLeft = indexesLeft(this, other);
+    return hashJoin(gen(other), keyA, keyB, { indexLeft, keepLeft, keepRight })(
+      this._gen,
+    );
+  }
+
+  /**
+   * Pairs every item with the items of `other` that have an equal key, in
+   * source order. `other` is read into a hash index when a pass starts.
+   */
+  groupJoin<U, K>(
+    other: Iterable<U>,
+    keyA: (item: T) => K,
+    keyB: (item: U) => K,
+  ): Iter<[T, Iter<U>]> {
+    return new Iter(
+      map(([a, group]: [T, Array<U>]): [T, Iter<U>] => [a, view(group)])(
+        groupJoin(gen(other), keyA, keyB)(this._gen),
+      ),
+      this.sizeHint(),
+    );
+  }
+
+  /** Keeps the items with a key that some item of `other` has, like `join`. */
+  semiJoin<U, K>(
+    other: Iterable<U>,
+    keyA: (item: T) => K,
+    keyB: (item: U) => K,
+  ): Iter<T> {
+    const options = { indexLeft: indexesLeft(this, other), matching: true };
+    return new Iter(
+      semiJoin(gen(other), keyA, keyB, options)(this._gen),
+      dropHint(this.sizeHint()),
+    );
+  }
+
+  /** Keeps the items with a key that no item of `other` has. */
+  antiJoin<U, K>(
+    other: Iterable<U>,
+    keyA: (item: T) => K,
+    keyB: (item: U) => K,
+  ): Iter<T> {
+    const options = { indexLeft: indexesLeft(this, other), matching: false };
+    return new Iter(
+      semiJoin(gen(other), keyA, keyB, options)(this._gen),
+      dropHint(this.sizeHint()),
+    );
+  }
+
+  /** Like `fold`, but yields every intermediate accumulator. */
+  scan<U>(init: U, fn: (acc: U, item: T) => U): Iter<U> {
+    return new Iter(scan(init, fn)(this._gen), this.sizeHint());
+  }
+
+  /** Yields the first item, then every `n`-th item after it. */
+  stepBy(n: number): Iter<T> {
+    return new Iter(
+      stepBy<T>(n)(this._gen),
+      mapHint(this.sizeHint(), (len) => Math.ceil(len / n)),
+    );
+  }
+
+  /** Yields every item in the order of `cmp`, ascending by default. */
+  sorted(cmp?: Comparator<T>): Iter<T> {
+    return new Iter(sorted(cmp)(this._gen), this.sizeHint());
+  }
+
+  /** Yields every item ordered by the key `fn` returns, computed once each. */
+  sortedBy<K>(fn: (item: T) => K): Iter<T> {
+    return new Iter(sortedBy(fn)(this._gen), this.sizeHint());
+  }
+
+  /** Drops items already seen, remembering every distinct item. */
+  unique(): Iter<T> {
+    return new Iter(unique(this._gen), dropHint(this.sizeHint()));
+  }
+
+  /** Drops items whose key was already seen. */
+  uniqueBy<K>(fn: (item: T) => K): Iter<T> {
+    return new Iter(uniqueBy(fn)(this._gen), dropHint(this.sizeHint()));
+  }
+
+  /** Drops items equal to the one right before them. */
+  dedup(): Iter<T> {
+    return new Iter(dedup(this._gen), dropHint(this.sizeHint()));
+  }
+
+  /**
+   * Lazily merges sorted sources into one ascending sequence, pulling one
+   * item at a time, so infinite sources work.
+   */
+  mergeSorted(...others: Array<Iterable<T>>): Iter<T> {
+    return this.mergeSortedWith(others, compare);
+  }
+
+  /** Like `mergeSorted`, for sources sorted by `cmp`. */
+  mergeSortedWith(others: Array<Iterable<T>>, cmp: Comparator<T>): Iter<T> {
+    return new Iter(
+      mergeSorted(others.map((other) => gen(other)), cmp)(this._gen),
+      others.reduce(
+        (hint: SizeHint, other) => chainHint(hint, hintOf(other)),
+        this.sizeHint(),
+      ),
+    );
+  }
+
+  /**
+   * The `k` largest items by `cmp`, largest first, holding only `k` at once.
+   *
+   * @throws {RangeError} When `k` is negative or `NaN`, like `take`.
+   */
+  topK(k: number, cmp?: Comparator<T>): Iter<T> {
+    return new Iter(topK(k, cmp)(this._gen), takeHint(this.sizeHint(), k));
+  }
+
+  /**
+   * The `k` smallest items by `cmp`, smallest first, holding only `k` at once.
+   *
+   * @throws {RangeError} When `k` is negative or `NaN`, like `take`.
+   */
+  bottomK(k: number, cmp?: Comparator<T>): Iter<T> {
+    return new Iter(bottomK(k, cmp)(this._gen), takeHint(this.sizeHint(), k));
+  }
+
+  isSorted(cmp?: Comparator<T>): boolean {
+    return isSorted(cmp)(this._gen);
+  }
+
+  min(cmp?: Comparator<T>): Option<T> {
+    return min(cmp)(this._gen);
+  }
+
+  max(cmp?: Comparator<T>): Option<T> {
+    return max(cmp)(this._gen);
+  }
+
+  /** The smallest and largest item in one pass. */
+  minMax(cmp?: Comparator<T>): Option<[T, T]> {
+    return minMax(cmp)(this._gen);
+  }
+}
+
+// 🔹 Joins index the side known to be smaller, and `other` by default
+function indexesLeft(left: Iter<unknown>, right: Iterable<unknown>): boolean {
+  const [, upper] = left.sizeHint();
+  const [, otherUpper] = hintOf(right);
+  return upper !== undefined && upper < (otherUpper ?? Infinity);
+}
+
+function view<T>(items: Array<T>): RandomAccessIter<T> {
+  return new tiers.RandomAccessIter((i) => items[i], items.length);
+}
+
+function hintOf(source: Iterable<unknown>): SizeHint {
+  if (source instanceof Iter) return source.sizeHint();
+  if (Array.isArray(source)) return [source.length, source.length];
+  if (source instanceof Set || source instanceof Map) {
+    return [source.size, source.size];
+  }
+  return [0, undefined];
+}
+
+/**
+ * An iterator that never runs out, such as the result of `cycle()`. Only a
+ * lower bound of `Infinity` promises that: `cycle()` on a source that may be
+ * empty keeps a lower bound of `0`.
+ *
+ * Lives next to `Iter` so that `Iter#cycle` can construct it without an
+ * import cycle between the two modules.
+ */
+export class InfiniteIter<T> extends Iter<T> {
+  constructor(gen: GenFn<T>, hint: SizeHint = [Infinity, undefined]) {
+    super(gen, hint);
+  }
+
+  override map<U>(fn: (item: T, index: number) => U): InfiniteIter<U> {
+    return new InfiniteIter(map(fn)(this._gen), this.sizeHint());
+  }
+
+  /** Exactly `n` items when the source cannot run out, at most `n` if not. */
+  override take(n: number): Iter<T> {
+    const [lower, upper] = this.sizeHint();
+    if (lower !== Infinity) {
+      return new Iter(take<T>(n)(this._gen), takeHint([lower, upper], n));
+    }
+    return new tiers.ExactSizedIter(take<T>(n)(this._gen), toCount(n));
+  }
+
+  override skip(n: number): InfiniteIter<T> {
+    return new InfiniteIter(skip<T>(n)(this._gen), this.sizeHint());
+  }
+
+  override skipWhile(fn: Predicate<T>): InfiniteIter<T> {
+    return new InfiniteIter(skipWhile(fn)(this._gen), this.sizeHint());
+  }
+
+  override enumerate(): InfiniteIter<[number, T]> {
+    return new InfiniteIter(enumerate(this._gen), this.sizeHint());
   }
 
-  forEach(fn: (item: T) => void) {
-    return forEach(fn)(this._gen);
+  override cycle(): InfiniteIter<T> {
+    return this;
   }
 }
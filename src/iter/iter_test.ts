@@ -0,0 +1,150 @@
+import { assert, assertEquals } from "@std/assert";
+import { some } from "../option.ts";
+import type { Iter } from "./iter.ts";
+import { iter } from "./mod.ts";
+
+// 🔹 Every combinator must close its source when the chain stops early,
+// whether the consumer returns, breaks or disposes of the iterator. The
+// source opens a real file, so a leaked handle shows up as an open resource.
+
+/** Ten numbers read while holding a file open, and the handles it opened. */
+function opened() {
+  const files: Array<Deno.FsFile> = [];
+  const source: Iter<number> = iter(function* () {
+    const file = Deno.openSync(new URL(import.meta.url));
+    files.push(file);
+    try {
+      for (let i = 0; i < 10; i++) yield i;
+    } finally {
+      file.close();
+    }
+  });
+  return { source, files };
+}
+
+function isClosed(file: Deno.FsFile): boolean {
+  try {
+    file.statSync();
+    return false;
+  } catch (error) {
+    return error instanceof Deno.errors.BadResource;
+  }
+}
+
+function assertClosed(files: Array<Deno.FsFile>, message: string) {
+  assert(files.length > 0, `no file was opened ${message}`);
+  assert(files.every(isClosed), `a file was left open ${message}`);
+}
+
+function first<T>(items: Iterable<T>): T | undefined {
+  for (const item of items) return item;
+}
+
+const even = (x: number) => x % 2 === 0;
+
+const combinators: Array<[string, (it: Iter<number>) => Iter<unknown>]> = [
+  ["map", (it) => it.map((x) => x * 2)],
+  ["filter", (it) => it.filter(even)],
+  ["filterMap", (it) => it.filterMap((x) => some(x))],
+  ["tryMap", (it) => it.tryMap((x) => x)],
+  ["take", (it) => it.take(5)],
+  ["takeWhile", (it) => it.takeWhile((x) => x < 5)],
+  ["skip", (it) => it.skip(2)],
+  ["skipWhile", (it) => it.skipWhile((x) => x < 2)],
+  ["stepBy", (it) => it.stepBy(2)],
+  ["enumerate", (it) => it.enumerate()],
+  ["cycle", (it) => it.cycle()],
+  ["zip", (it) => it.zip([1, 2, 3])],
+  ["zipWith", (it) => it.zipWith([1, 2, 3], (a, b) => a + b)],
+  ["chain", (it) => it.chain([1, 2, 3])],
+  ["interleave", (it) => it.interleave([1, 2, 3])],
+  ["flatMap", (it) => it.flatMap((x) => [x, x])],
+  ["flatten", (it) => it.map((x) => [x]).flatten()],
+  ["product", (it) => it.product([1, 2])],
+  ["windows", (it) => it.windows(2)],
+  ["chunks", (it) => it.chunks(3)],
+  ["chunksExact", (it) => it.chunksExact(3)],
+  ["chunkBy", (it) => it.chunkBy((x) => Math.floor(x / 3))],
+  ["pairwise", (it) => it.pairwise()],
+  ["groupBy", (it) => it.groupBy((x) => x % 3)],
+  ["scan", (it) => it.scan(0, (sum, x) => sum + x)],
+  ["sorted", (it) => it.sorted()],
+  ["sortedBy", (it) => it.sortedBy((x) => -x)],
+  ["unique", (it) => it.unique()],
+  ["uniqueBy", (it) => it.uniqueBy((x) => x % 3)],
+  ["dedup", (it) => it.dedup()],
+  ["mergeSorted", (it) => it.mergeSorted([1, 5])],
+  ["topK", (it) => it.topK(3)],
+  ["bottomK", (it) => it.bottomK(3)],
+  [
+    "takeUntilAborted",
+    (it) => it.takeUntilAborted(new AbortController().signal),
+  ],
+  ["oneShot", (it) => it.oneShot()],
+  ["onFinally", (it) => it.onFinally(() => {})],
+];
+
+for (const [name, apply] of combinators) {
+  Deno.test(`${name} closes its source on an early return`, () => {
+    const { source, files } = opened();
+    first(apply(source));
+    assertClosed(files, `after ${name}`);
+  });
+
+  Deno.test(`${name} closes its source on break`, () => {
+    const { source, files } = opened();
+    for (const _ of apply(source)) break;
+    assertClosed(files, `after ${name}`);
+  });
+
+  Deno.test(`${name} closes its source when disposed`, () => {
+    const { source, files } = opened();
+    const it = apply(source);
+    it[Symbol.iterator]().next();
+    it[Symbol.dispose]();
+    assertClosed(files, `after ${name}`);
+  });
+}
+
+// 🔹 `cache()` and `share()` keep their run open for later passes, so only
+// disposing of them closes the source early, and `tee()` closes it once every
+// branch has ended or been disposed
+for (
+  const [name, apply] of [
+    ["cache", (it: Iter<number>) => [it.cache()]],
+    ["share", (it: Iter<number>) => [it.share()]],
+    ["tee", (it: Iter<number>) => it.tee(2)],
+  ] as const
+) {
+  Deno.test(`${name} closes its source when disposed`, () => {
+    const { source, files } = opened();
+    const its = apply(source);
+    for (const _ of its[0]) break;
+    assert(!isClosed(files[0]), `the file was closed before disposing`);
+    for (const it of its) it[Symbol.dispose]();
+    assertClosed(files, `after ${name}`);
+  });
+}
+
+Deno.test("terminals close the source when they stop early", () => {
+  for (
+    const [name, consume] of [
+      ["find", (it: Iter<number>) => it.find((x) => x === 2)],
+      ["some", (it: Iter<number>) => it.some((x) => x === 2)],
+      ["every", (it: Iter<number>) => it.every((x) => x < 2)],
+      ["nth", (it: Iter<number>) => it.nth(2)],
+      ["position", (it: Iter<number>) => it.position((x) => x === 2)],
+    ] as const
+  ) {
+    const { source, files } = opened();
+    consume(source);
+    assertClosed(files, `after ${name}`);
+  }
+});
+
+Deno.test("onFinally runs once the chain stops early", () => {
+  const calls: Array<string> = [];
+  const it = iter([1, 2, 3]).onFinally(() => calls.push("done"));
+  assertEquals(first(it.map((x) => x * 2)), 2);
+  assertEquals(calls, ["done"]);
+});
@@ -0,0 +1,189 @@
+import { assertEquals } from "@std/assert";
+import { pipe } from "../fp.ts";
+import type { Option } from "../option.ts";
+import type { Iter } from "./iter.ts";
+import { iter } from "./mod.ts";
+import * as operators from "./operators.ts";
+
+// 🔹 Joins index one side and stream the other, whose order the results
+// follow. An array on the right is indexed; a generator of unknown length on
+// the right is streamed, and the left side indexed instead.
+
+type Row = [number, string];
+
+const left: Array<Row> = [[1, "a"], [2, "b"], [1, "c"], [3, "d"]];
+const right: Array<Row> = [[2, "x"], [1, "y"], [4, "z"], [1, "w"]];
+const key = ([k]: Row) => k;
+
+function streamed(rows: Array<Row>): Iterable<Row> {
+  return iter(function* () {
+    yield* rows;
+  });
+}
+
+const name = ([, n]: Row) => n;
+const label = (row: Option<Row>) => row.isSome() ? name(row.value) : "-";
+
+Deno.test("join pairs duplicate keys in the streamed side's order", () => {
+  const pairs = (
+    it: Iter<[Row, Row]>,
+  ) => [...it.map(([a, b]) => name(a) + name(b))];
+  assertEquals(pairs(iter(left).join(right, key, key)), [
+    "ay",
+    "aw",
+    "bx",
+    "cy",
+    "cw",
+  ]);
+  assertEquals(pairs(iter(left).join(streamed(right), key, key)), [
+    "bx",
+    "ay",
+    "cy",
+    "aw",
+    "cw",
+  ]);
+});
+
+Deno.test("leftJoin keeps the unmatched left rows", () => {
+  const pairs = (it: Iter<[Row, Option<Row>]>) => [
+    ...it.map(([a, b]) => name(a) + label(b)),
+  ];
+  assertEquals(pairs(iter(left).leftJoin(right, key, key)), [
+    "ay",
+    "aw",
+    "bx",
+    "cy",
+    "cw",
+    "d-",
+  ]);
+  assertEquals(pairs(iter(left).leftJoin(streamed(right), key, key)), [
+    "bx",
+    "ay",
+    "cy",
+    "aw",
+    "cw",
+    "d-",
+  ]);
+});
+
+Deno.test("fullOuterJoin keeps the unmatched rows of both sides", () => {
+  const pairs = (it: Iter<[Option<Row>, Option<Row>]>) => [
+    ...it.map(([a, b]) => label(a) + label(b)),
+  ];
+  assertEquals(pairs(iter(left).fullOuterJoin(right, key, key)), [
+    "ay",
+    "aw",
+    "bx",
+    "cy",
+    "cw",
+    "d-",
+    "-z",
+  ]);
+  assertEquals(pairs(iter(left).fullOuterJoin(streamed(right), key, key)), [
+    "bx",
+    "ay",
+    "cy",
+    "-z",
+    "aw",
+    "cw",
+    "d-",
+  ]);
+});
+
+Deno.test("groupJoin gives every left row its matches in order", () => {
+  for (const other of [right, streamed(right)]) {
+    const groups = iter(left)
+      .groupJoin(other, key, key)
+      .map(([a, group]) => name(a) + [...group.map(name)].join(""));
+    assertEquals([...groups], ["ayw", "bx", "cyw", "d"]);
+  }
+});
+
+Deno.test("semiJoin and antiJoin keep left rows by whether a key matches", () => {
+  for (const other of [right, streamed(right)]) {
+    assertEquals([...iter(left).semiJoin(other, key, key).map(name)], [
+      "a",
+      "b",
+      "c",
+    ]);
+    assertEquals([...iter(left).antiJoin(other, key, key).map(name)], ["d"]);
+  }
+});
+
+Deno.test("joins with an empty side", () => {
+  const none: Array<Row> = [];
+  for (const [a, b] of [[none, right], [left, none], [none, none]]) {
+    assertEquals([...iter(a).join(b, key, key)], []);
+    assertEquals([...iter(a).join(streamed(b), key, key)], []);
+  }
+  assertEquals(
+    [
+      ...iter(left).leftJoin(none, key, key).map(([a, b]) =>
+        name(a) + label(b)
+      ),
+    ],
+    ["a-", "b-", "c-", "d-"],
+  );
+  assertEquals([...iter(none).leftJoin(right, key, key)], []);
+  assertEquals(
+    [
+      ...iter(none)
+        .fullOuterJoin(streamed(right), key, key)
+        .map(([a, b]) => label(a) + label(b)),
+    ],
+    ["-x", "-y", "-z", "-w"],
+  );
+  assertEquals(
+    [
+      ...iter(left)
+        .fullOuterJoin(none, key, key)
+        .map(([a, b]) => label(a) + label(b)),
+    ],
+    ["a-", "b-", "c-", "d-"],
+  );
+  assertEquals(
+    [
+      ...iter(left).groupJoin(none, key, key).map((
+        [a, g],
+      ) => [name(a), g.count()]),
+    ],
+    [["a", 0], ["b", 0], ["c", 0], ["d", 0]],
+  );
+  assertEquals([...iter(left).semiJoin(none, key, key)], []);
+  assertEquals([...iter(left).antiJoin(streamed(none), key, key)], left);
+  assertEquals([...iter(none).antiJoin(right, key, key)], []);
+});
+
+Deno.test("join operators match the methods", () => {
+  for (const other of [right, streamed(right)]) {
+    assertEquals(
+      pipe(left, operators.join(other, key, key), operators.toArray),
+      [...iter(left).join(other, key, key)],
+    );
+    assertEquals(
+      pipe(left, operators.leftJoin(other, key, key), operators.toArray),
+      [...iter(left).leftJoin(other, key, key)],
+    );
+    assertEquals(
+      pipe(left, operators.fullOuterJoin(other, key, key), operators.toArray),
+      [...iter(left).fullOuterJoin(other, key, key)],
+    );
+    assertEquals(
+      pipe(
+        left,
+        operators.groupJoin(other, key, key),
+        operators.map(([a, group]) => [a, [...group]]),
+        operators.toArray,
+      ),
+      [...iter(left).groupJoin(other, key, key).map(([a, g]) => [a, [...g]])],
+    );
+    assertEquals(
+      pipe(left, operators.semiJoin(other, key, key), operators.toArray),
+      [...iter(left).semiJoin(other, key, key)],
+    );
+    assertEquals(
+      pipe(left, operators.antiJoin(other, key, key), operators.toArray),
+      [...iter(left).antiJoin(other, key, key)],
+    );
+  }
+});
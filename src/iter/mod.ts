@@ -1,28 +1,108 @@
-import type { GenFn } from "../types.ts";
-import { DoubleEndedIter } from "./double_ended.ts";
+import type { AsyncGenFn, GenFn } from "../types.ts";
+import { AsyncIter } from "./async_iter.ts";
+import type { DoubleEndedIter } from "./double_ended.ts";
 import { ExactSizedIter } from "./exact_sized.ts";
 import { Iter } from "./iter.ts";
+import { RandomAccessIter } from "./random_access.ts";
 
-type IterInput<T> = GenFn<T> | Iterable<T>;
-type IterOutput<T> = Iter<T> | ExactSizedIter<T> | DoubleEndedIter<T>;
+export { CombinatoricIter } from "./combinatorics.ts";
+export { Cursor } from "./cursor.ts";
+export { DoubleEndedIter } from "./double_ended.ts";
+export { ExactSizedIter } from "./exact_sized.ts";
+export { InfiniteIter, Iter } from "./iter.ts";
+export { RandomAccessIter } from "./random_access.ts";
+export { gen } from "./gen.ts";
+export {
+  cartesianProduct,
+  empty,
+  entries,
+  fromFn,
+  iterate,
+  keys,
+  once,
+  repeat,
+  repeatN,
+  repeatWith,
+  successors,
+  unfold,
+  values,
+} from "./sources.ts";
+export {
+  bfs,
+  dfs,
+  type DfsOptions,
+  topoSort,
+  type TraversalOptions,
+  walkTree,
+} from "./traversal.ts";
+export * from "./collect.ts";
+export type { ParMapOptions } from "./parallel.ts";
+export type { Option, Result } from "../option.ts";
+export type {
+  AbortOptions,
+  Comparator,
+  GenFn,
+  Iterables,
+  Predicate,
+  SizeHint,
+} from "../types.ts";
 
-export function iter<T>(input: Array<T>): DoubleEndedIter<T>;
+type NumberArray =
+  | Int8Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array;
+type BigIntArray = BigInt64Array | BigUint64Array;
+
+type IterInput<T> =
+  | GenFn<T>
+  | AsyncGenFn<T>
+  | Iterable<T>
+  | Iterator<T>
+  | AsyncIterable<T>
+  | ReadableStream<T>;
+type IterOutput<T> =
+  | Iter<T>
+  | ExactSizedIter<T>
+  | DoubleEndedIter<T>
+  | RandomAccessIter<T>
+  | AsyncIter<T>;
+
+export function iter<T>(input: Array<T>): RandomAccessIter<T>;
+export function iter(input: string): RandomAccessIter<string>;
+export function iter(input: NumberArray): RandomAccessIter<number>;
+export function iter(input: BigIntArray): RandomAccessIter<bigint>;
 export function iter<K, V>(input: Map<K, V>): ExactSizedIter<[K, V]>;
 export function iter<T>(input: Set<T>): ExactSizedIter<T>;
+export function iter<T>(input: AsyncGenFn<T>): AsyncIter<T>;
 export function iter<T>(input: GenFn<T>): Iter<T>;
+export function iter<T>(input: ReadableStream<T>): AsyncIter<T>;
+export function iter<T>(input: AsyncIterable<T>): AsyncIter<T>;
 export function iter<T>(input: Iterable<T>): Iter<T>;
+export function iter<T>(input: Iterator<T>): Iter<T>;
 export function iter<T>(input: IterInput<T>): IterOutput<T> {
-  if (typeof input === "function") return new Iter(input);
+  if (typeof input === "function") {
+    if (isAsyncGenFn(input)) return new AsyncIter(input);
+    return new Iter(input as GenFn<T>);
+  }
   if (Array.isArray(input)) {
-    return new DoubleEndedIter(
-      function* () {
-        for (let i = 0; i < input.length; i++) yield input[i];
-      },
-      function* () {
-        for (let i = input.length - 1; i >= 0; i--) yield input[i];
-      },
-      input.length,
-    );
+    return new RandomAccessIter((i) => input[i], input.length);
+  }
+
+  if (typeof input === "string") {
+    // 🔹 Indexed by code point, like `for...of`, so split once up front
+    const points = Array.from(input) as Array<T>;
+    return new RandomAccessIter((i) => points[i], points.length);
+  }
+
+  if (ArrayBuffer.isView(input) && !(input instanceof DataView)) {
+    const view = input as unknown as ArrayLike<T>;
+    return new RandomAccessIter((i) => view[i], view.length);
   }
 
   if (input instanceof Set || input instanceof Map) {
@@ -34,7 +114,67 @@ export function iter<T>(input: IterInput<T>): IterOutput<T> {
     );
   }
 
+  if (input instanceof ReadableStream) {
+    return new AsyncIter(async function* () {
+      const reader = input.getReader();
+      let done = false;
+      try {
+        while (true) {
+          const result = await reader.read();
+          if (result.done) break;
+          yield result.value;
+        }
+        done = true;
+      } finally {
+        // 🔹 Stopping early cancels the stream, like its own async iterator
+        if (!done) await reader.cancel();
+        reader.releaseLock();
+      }
+    });
+  }
+
+  // 🔹 A disposable source is disposed once, as soon as a pass over it ends
+  const resource = input as Partial<Disposable & AsyncDisposable>;
+  if (Symbol.asyncIterator in input) {
+    const dispose = onlyOnce(async () => {
+      if (Symbol.asyncDispose in resource) {
+        await resource[Symbol.asyncDispose]?.();
+      } else resource[Symbol.dispose]?.();
+    });
+    return new AsyncIter(async function* () {
+      try {
+        for await (const item of input) yield item;
+      } finally {
+        await dispose();
+      }
+    });
+  }
+
+  // 🔹 A bare iterator such as `{ next() {...} }` is read as it goes, like the
+  // native ones, so a later pass continues where the previous one stopped
+  const source: Iterable<T> = Symbol.iterator in input
+    ? input
+    : { [Symbol.iterator]: () => input };
+  const dispose = onlyOnce(() => resource[Symbol.dispose]?.());
   return new Iter(function* () {
-    for (const item of input) yield item;
+    try {
+      for (const item of source) yield item;
+    } finally {
+      dispose();
+    }
   });
 }
+
+function onlyOnce<T>(fn: () => T): () => T | undefined {
+  let done = false;
+  return () => {
+    if (done) return undefined;
+    done = true;
+    return fn();
+  };
+}
+
+function isAsyncGenFn<T>(fn: GenFn<T> | AsyncGenFn<T>): fn is AsyncGenFn<T> {
+  return Object.prototype.toString.call(fn) ===
+    "[object AsyncGeneratorFunction]";
+}
@@ -0,0 +1,177 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { none } from "../option.ts";
+import type { Iter } from "./iter.ts";
+import { iter } from "./mod.ts";
+
+// 🔹 Runs every `Iter` method that overlaps a native iterator helper next to
+// that helper, comparing the result, the error thrown and every callback call
+
+type Log = Array<unknown>;
+
+type Case = {
+  name: string;
+  native: (source: IteratorObject<number>, log: Log) => unknown;
+  ours: (source: Iter<number>, log: Log) => unknown;
+};
+
+const inputs: Array<Array<number>> = [[], [7], [3, 1, 4, 1, 5, 9, 2, 6]];
+
+/** The native and our sources over `items`, for every kind of `Iter`. */
+function sources(items: Array<number>): Array<[string, () => Iter<number>]> {
+  return [
+    ["array", () => iter(items)],
+    [
+      "generator",
+      () =>
+        iter(function* () {
+          yield* items;
+        }),
+    ],
+    ["native iterator", () => iter(items.values())],
+  ];
+}
+
+function run<S>(fn: (source: S, log: Log) => unknown, source: S) {
+  const log: Log = [];
+  try {
+    return { value: fn(source, log), log };
+  } catch (error) {
+    return { error: (error as Error).constructor.name, log };
+  }
+}
+
+const counts = [0, 1, 2.5, 3, 100, Infinity, -0.5, -1, NaN];
+
+const cases: Array<Case> = [
+  {
+    name: "map",
+    native: (s, log) => s.map((x, i) => (log.push([x, i]), x * 2)).toArray(),
+    ours: (s, log) => [...s.map((x, i) => (log.push([x, i]), x * 2))],
+  },
+  {
+    name: "filter",
+    native: (s, log) => s.filter((x, i) => (log.push([x, i]), x > 2)).toArray(),
+    ours: (s, log) => [...s.filter((x, i) => (log.push([x, i]), x > 2))],
+  },
+  ...counts.flatMap((n): Array<Case> => [
+    {
+      name: `take(${n})`,
+      native: (s) => s.take(n).toArray(),
+      ours: (s) => [...s.take(n)],
+    },
+    {
+      name: `drop(${n}) as skip(${n})`,
+      native: (s) => s.drop(n).toArray(),
+      ours: (s) => [...s.skip(n)],
+    },
+  ]),
+  {
+    name: "flatMap to arrays",
+    native: (s, log) =>
+      s.flatMap((x, i) => (log.push([x, i]), [x, -x])).toArray(),
+    ours: (s, log) => [...s.flatMap((x, i) => (log.push([x, i]), [x, -x]))],
+  },
+  {
+    name: "flatMap to bare iterators",
+    native: (s) => s.flatMap((x) => bare([x, x])).toArray(),
+    ours: (s) => [...s.flatMap((x) => bare([x, x]))],
+  },
+  {
+    name: "flatMap to strings",
+    native: (s) => s.flatMap((x) => String(x)).toArray(),
+    ours: (s) => [...s.flatMap((x) => String(x))],
+  },
+  {
+    name: "reduce with an initial value as fold",
+    native: (s, log) =>
+      s.reduce((acc, x, i) => (log.push([acc, x, i]), acc + x), 10),
+    ours: (s, log) =>
+      s.fold(10, (acc, x, i) => (log.push([acc, x, i]), acc + x)),
+  },
+  {
+    name: "toArray",
+    native: (s) => s.toArray(),
+    ours: (s) => [...s],
+  },
+  {
+    name: "forEach",
+    native: (s, log) => s.forEach((x, i) => log.push([x, i])),
+    ours: (s, log) => s.forEach((x, i) => log.push([x, i])),
+  },
+  {
+    name: "some",
+    native: (s, log) => s.some((x, i) => (log.push([x, i]), x === 1)),
+    ours: (s, log) => s.some((x, i) => (log.push([x, i]), x === 1)),
+  },
+  {
+    name: "every",
+    native: (s, log) => s.every((x, i) => (log.push([x, i]), x < 5)),
+    ours: (s, log) => s.every((x, i) => (log.push([x, i]), x < 5)),
+  },
+  {
+    name: "find",
+    native: (s, log) => s.find((x, i) => (log.push([x, i]), x > 3)),
+    ours: (s, log) => {
+      const found = s.find((x, i) => (log.push([x, i]), x > 3));
+      return found.isSome() ? found.value : undefined;
+    },
+  },
+];
+
+/** An iterator over `items` that is not itself iterable. */
+function bare<T>(items: Array<T>): Iterator<T> {
+  const it = items.values();
+  return { next: () => it.next() };
+}
+
+for (const { name, native, ours } of cases) {
+  Deno.test(`${name} matches the native iterator helper`, () => {
+    for (const items of inputs) {
+      const expected = run(native, items.values());
+      for (const [kind, source] of sources(items)) {
+        assertEquals(run(ours, source()), expected, `${kind} of [${items}]`);
+      }
+    }
+  });
+}
+
+Deno.test("reduce matches the native helper on items", () => {
+  for (const items of inputs.filter((items) => items.length > 0)) {
+    const expected = run(
+      (s, log) => s.reduce((acc, x, i) => (log.push([acc, x, i]), acc + x)),
+      items.values(),
+    );
+    for (const [kind, source] of sources(items)) {
+      const actual = run(
+        (s: Iter<number>, log) =>
+          s.reduce((acc, x, i) => (log.push([acc, x, i]), acc + x)).unwrap(),
+        source(),
+      );
+      assertEquals(actual, expected, `${kind} of [${items}]`);
+    }
+  }
+});
+
+Deno.test("reduce returns none where the native helper throws", () => {
+  assertThrows(
+    () => ([] as Array<number>).values().reduce((a, b) => a + b),
+    TypeError,
+  );
+  assertEquals(iter<number>([]).reduce((a, b) => a + b), none);
+});
+
+Deno.test("take and skip throw when called, like the native helpers", () => {
+  const source = iter(function* () {
+    yield 1;
+  });
+  assertThrows(() => source.take(-1), RangeError);
+  assertThrows(() => source.skip(NaN), RangeError);
+  assertThrows(() => iter([1, 2]).take(-1), RangeError);
+  assertThrows(() => iter(new Set([1, 2])).skip(-2), RangeError);
+});
+
+Deno.test("toIterator returns a native iterator with the helpers", () => {
+  const native = iter([1, 2, 3]).toIterator();
+  assertEquals(native.map((x) => x * 2).toArray(), [2, 4, 6]);
+  assertEquals([...iter([1, 2, 3].values().filter((x) => x > 1))], [2, 3]);
+});
@@ -0,0 +1,392 @@
+/**
+ * Point-free versions of the `Iter` methods, for use with `pipe` and `flow`
+ * from `fp.ts`.
+ *
+ * Every operator either maps a source to a new lazy iterable,
+ * `(source: Iterable<T>) => Iter<U>`, or consumes it as a terminal. Operators
+ * without arguments (`enumerate`, `count`, `toArray`, ...) are passed as-is
+ * rather than called. Sources may be arrays, Sets, Maps, generators or `Iter`
+ * instances; `Iter` instances keep their size and double-ended capabilities.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { pipe, range } from "@blazes/iter";
+ * import { filter, map, toArray } from "@blazes/iter/operators";
+ *
+ * const even = (x: number) => x % 2 === 0;
+ * assertEquals(
+ *   pipe(range(10), map((x) => x * 3), filter(even), toArray),
+ *   [0, 6, 12, 18, 24],
+ * );
+ * ```
+ *
+ * @module
+ */
+import type { Option, Result } from "../option.ts";
+import type {
+  AbortOptions,
+  Comparator,
+  Iterables,
+  Predicate,
+} from "../types.ts";
+import type { Collector } from "./collect.ts";
+import { Iter } from "./iter.ts";
+import { iter } from "./mod.ts";
+
+type Operator<T, U> = (source: Iterable<T>) => Iter<U>;
+type Terminal<T, R> = (source: Iterable<T>) => R;
+
+function from<T>(source: Iterable<T>): Iter<T> {
+  return source instanceof Iter ? source : iter(source);
+}
+
+export function map<T, U>(fn: (item: T, index: number) => U): Operator<T, U> {
+  return (source) => from(source).map(fn);
+}
+
+export function onFinally<T>(fn: () => void): Operator<T, T> {
+  return (source) => from(source).onFinally(fn);
+}
+
+export function filter<T>(
+  fn: (item: T, index: number) => boolean,
+): Operator<T, T> {
+  return (source) => from(source).filter(fn);
+}
+
+export function filterMap<T, U>(fn: (item: T) => Option<U>): Operator<T, U> {
+  return (source) => from(source).filterMap(fn);
+}
+
+export function tryMap<T, U, E = unknown>(
+  fn: (item: T) => U,
+): Operator<T, Result<U, E>> {
+  return (source) => from(source).tryMap<U, E>(fn);
+}
+
+export function take<T>(n: number): Operator<T, T> {
+  return (source) => from(source).take(n);
+}
+
+export function takeWhile<T>(fn: Predicate<T>): Operator<T, T> {
+  return (source) => from(source).takeWhile(fn);
+}
+
+export function takeUntilAborted<T>(signal: AbortSignal): Operator<T, T> {
+  return (source) => from(source).takeUntilAborted(signal);
+}
+
+export function skip<T>(n: number): Operator<T, T> {
+  return (source) => from(source).skip(n);
+}
+
+export function skipWhile<T>(fn: Predicate<T>): Operator<T, T> {
+  return (source) => from(source).skipWhile(fn);
+}
+
+export function enumerate<T>(source: Iterable<T>): Iter<[number, T]> {
+  return from(source).enumerate();
+}
+
+export function cycle<T>(source: Iterable<T>): Iter<T> {
+  return from(source).cycle();
+}
+
+export function zip<T, U>(other: Iterable<U>): Operator<T, [T, U]> {
+  return (source) => from(source).zip(other);
+}
+
+export function zipWith<T, U, R>(
+  other: Iterable<U>,
+  fn: (a: T, b: U) => R,
+): Operator<T, R> {
+  return (source) => from(source).zipWith(other, fn);
+}
+
+export function chain<T>(other: Iterable<T>): Operator<T, T> {
+  return (source) => from(source).chain(other);
+}
+
+export function interleave<T>(other: Iterable<T>): Operator<T, T> {
+  return (source) => from(source).interleave(other);
+}
+
+export function flatMap<T, U>(
+  fn: (item: T, index: number) => Iterable<U> | Iterator<U>,
+): Operator<T, U> {
+  return (source) => from(source).flatMap(fn);
+}
+
+export function flatten<T>(source: Iterable<Iterable<T>>): Iter<T> {
+  return from(source).flatten();
+}
+
+export function product<T, U extends Array<unknown>>(
+  ...others: Iterables<U>
+): Operator<T, [T, ...U]> {
+  return (source) => from(source).product<U>(...others);
+}
+
+export function permutations<T>(k?: number): Operator<T, Array<T>> {
+  return (source) => from(source).permutations(k);
+}
+
+export function combinations<T>(k: number): Operator<T, Array<T>> {
+  return (source) => from(source).combinations(k);
+}
+
+export function combinationsWithReplacement<T>(
+  k: number,
+): Operator<T, Array<T>> {
+  return (source) => from(source).combinationsWithReplacement(k);
+}
+
+export function powerset<T>(source: Iterable<T>): Iter<Array<T>> {
+  return from(source).powerset();
+}
+
+export function windows<T>(n: number): Operator<T, Array<T>> {
+  return (source) => from(source).windows(n);
+}
+
+export function chunks<T>(n: number): Operator<T, Array<T>> {
+  return (source) => from(source).chunks(n);
+}
+
+export function chunksExact<T>(n: number): Operator<T, Array<T>> {
+  return (source) => from(source).chunksExact(n);
+}
+
+export function chunkBy<T, K>(fn: (item: T) => K): Operator<T, Array<T>> {
+  return (source) => from(source).chunkBy(fn);
+}
+
+export function groupBy<T, K>(fn: (item: T) => K): Operator<T, [K, Iter<T>]> {
+  return (source) => from(source).groupBy(fn);
+}
+
+export function join<T, U, K>(
+  other: Iterable<U>,
+  keyA: (item: T) => K,
+  keyB: (item: U) => K,
+): Operator<T, [T, U]> {
+  return (source) => from(source).join(other, keyA, keyB);
+}
+
+export function leftJoin<T, U, K>(
+  other: Iterable<U>,
+  keyA: (item: T) => K,
+  keyB: (item: U) => K,
+): Operator<T, [T, Option<U>]> {
+  return (source) => from(source).leftJoin(other, keyA, keyB);
+}
+
+export function fullOuterJoin<T, U, K>(
+  other: Iterable<U>,
+  keyA: (item: T) => K,
+  keyB: (item: U) => K,
+): Operator<T, [Option<T>, Option<U>]> {
+  return (source) => from(source).fullOuterJoin(other, keyA, keyB);
+}
+
+export function groupJoin<T, U, K>(
+  other: Iterable<U>,
+  keyA: (item: T) => K,
+  keyB: (item: U) => K,
+): Operator<T, [T, Iter<U>]> {
+  return (source) => from(source).groupJoin(other, keyA, keyB);
+}
+
+export function semiJoin<T, U, K>(
+  other: Iterable<U>,
+  keyA: (item: T) => K,
+  keyB: (item: U) => K,
+): Operator<T, T> {
+  return (source) => from(source).semiJoin(other, keyA, keyB);
+}
+
+export function antiJoin<T, U, K>(
+  other: Iterable<U>,
+  keyA: (item: T) => K,
+  keyB: (item: U) => K,
+): Operator<T, T> {
+  return (source) => from(source).antiJoin(other, keyA, keyB);
+}
+
+export function pairwise<T>(source: Iterable<T>): Iter<[T, T]> {
+  return from(source).pairwise();
+}
+
+export function scan<T, U>(
+  init: U,
+  fn: (acc: U, item: T) => U,
+): Operator<T, U> {
+  return (source) => from(source).scan(init, fn);
+}
+
+export function stepBy<T>(n: number): Operator<T, T> {
+  return (source) => from(source).stepBy(n);
+}
+
+export function sorted<T>(cmp?: Comparator<T>): Operator<T, T> {
+  return (source) => from(source).sorted(cmp);
+}
+
+export function sortedBy<T, K>(fn: (item: T) => K): Operator<T, T> {
+  return (source) => from(source).sortedBy(fn);
+}
+
+export function unique<T>(source: Iterable<T>): Iter<T> {
+  return from(source).unique();
+}
+
+export function uniqueBy<T, K>(fn: (item: T) => K): Operator<T, T> {
+  return (source) => from(source).uniqueBy(fn);
+}
+
+export function dedup<T>(source: Iterable<T>): Iter<T> {
+  return from(source).dedup();
+}
+
+export function mergeSorted<T>(...others: Array<Iterable<T>>): Operator<T, T> {
+  return (source) => from(source).mergeSorted(...others);
+}
+
+export function mergeSortedWith<T>(
+  others: Array<Iterable<T>>,
+  cmp: Comparator<T>,
+): Operator<T, T> {
+  return (source) => from(source).mergeSortedWith(others, cmp);
+}
+
+export function topK<T>(k: number, cmp?: Comparator<T>): Operator<T, T> {
+  return (source) => from(source).topK(k, cmp);
+}
+
+export function bottomK<T>(k: number, cmp?: Comparator<T>): Operator<T, T> {
+  return (source) => from(source).bottomK(k, cmp);
+}
+
+export function cache<T>(source: Iterable<T>): Iter<T> {
+  return from(source).cache();
+}
+
+export function share<T>(source: Iterable<T>): Iter<T> {
+  return from(source).share();
+}
+
+export function oneShot<T>(source: Iterable<T>): Iter<T> {
+  return from(source).oneShot();
+}
+
+export function tee<T>(n: number): Terminal<T, Array<Iter<T>>> {
+  return (source) => from(source).tee(n);
+}
+
+export function fold<T, U>(
+  init: U,
+  fn: (acc: U, item: T, index: number) => U,
+  options?: AbortOptions,
+): Terminal<T, U> {
+  return (source) => from(source).fold(init, fn, options);
+}
+
+export function reduce<T>(
+  fn: (acc: T, item: T, index: number) => T,
+  options?: AbortOptions,
+): Terminal<T, Option<T>> {
+  return (source) => from(source).reduce(fn, options);
+}
+
+export function count<T>(source: Iterable<T>): number {
+  return from(source).count();
+}
+
+export function any<T>(
+  fn: (item: T, index: number) => boolean,
+): Terminal<T, boolean> {
+  return (source) => from(source).any(fn);
+}
+
+export function all<T>(
+  fn: (item: T, index: number) => boolean,
+): Terminal<T, boolean> {
+  return (source) => from(source).all(fn);
+}
+
+export function find<T>(
+  fn: (item: T, index: number) => boolean,
+  options?: AbortOptions,
+): Terminal<T, Option<T>> {
+  return (source) => from(source).find(fn, options);
+}
+
+export function nth<T>(n: number): Terminal<T, Option<T>> {
+  return (source) => from(source).nth(n);
+}
+
+export function last<T>(source: Iterable<T>): Option<T> {
+  return from(source).last();
+}
+
+export function position<T>(fn: Predicate<T>): Terminal<T, Option<number>> {
+  return (source) => from(source).position(fn);
+}
+
+export function isSorted<T>(cmp?: Comparator<T>): Terminal<T, boolean> {
+  return (source) => from(source).isSorted(cmp);
+}
+
+export function min<T>(cmp?: Comparator<T>): Terminal<T, Option<T>> {
+  return (source) => from(source).min(cmp);
+}
+
+export function max<T>(cmp?: Comparator<T>): Terminal<T, Option<T>> {
+  return (source) => from(source).max(cmp);
+}
+
+export function minMax<T>(cmp?: Comparator<T>): Terminal<T, Option<[T, T]>> {
+  return (source) => from(source).minMax(cmp);
+}
+
+export function forEach<T>(
+  fn: (item: T, index: number) => void,
+  options?: AbortOptions,
+): Terminal<T, void> {
+  return (source) => from(source).forEach(fn, options);
+}
+
+export function unzip<T, U>(
+  source: Iterable<[T, U]>,
+): [Array<T>, Array<U>] {
+  return from(source).unzip();
+}
+
+export function collect<T, A, R>(
+  collector: Collector<T, A, R>,
+  options?: AbortOptions,
+): Terminal<T, R> {
+  return (source) => from(source).collect(collector, options);
+}
+
+export function collectResult<T, E>(
+  source: Iterable<Result<T, E>>,
+): Result<Array<T>, E> {
+  return from(source).collectResult();
+}
+
+export function toIterator<T>(
+  source: Iterable<T>,
+): IteratorObject<T, undefined, unknown> {
+  return from(source).toIterator();
+}
+
+export function toArray<T>(source: Iterable<T>): Array<T> {
+  return [...from(source)];
+}
+
+/**  Alias to any */
+export const some = any;
+/**  Alias to all */
+export const every = all;
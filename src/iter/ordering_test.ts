@@ -0,0 +1,187 @@
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert";
+import { pipe } from "../fp.ts";
+import { none, some } from "../option.ts";
+import { ExactSizedIter } from "./exact_sized.ts";
+import type { Iter } from "./iter.ts";
+import { iter } from "./mod.ts";
+import * as operators from "./operators.ts";
+
+type Entry = { name: string; rank: number };
+
+const entries: Array<Entry> = [
+  { name: "c", rank: 2 },
+  { name: "a", rank: 1 },
+  { name: "d", rank: 2 },
+  { name: "b", rank: 1 },
+];
+const byRank = (a: Entry, b: Entry) => a.rank - b.rank;
+const names = (it: Iterable<Entry>) => [...it].map((entry) => entry.name);
+
+function generated<T>(items: Array<T>): Iter<T> {
+  return iter(function* () {
+    yield* items;
+  });
+}
+
+/** `start`, `start + step`, ... without end. */
+function counting(start: number, step: number): Iter<number> {
+  return iter(function* () {
+    for (let x = start;; x += step) yield x;
+  });
+}
+
+Deno.test("sorted and sortedBy are stable and keep the length", () => {
+  assertEquals([...iter([3, 1, 2]).sorted()], [1, 2, 3]);
+  assertEquals([...iter([3, 1, 2]).sorted((a, b) => b - a)], [3, 2, 1]);
+  assertEquals(names(iter(entries).sorted(byRank)), ["a", "b", "c", "d"]);
+  assertEquals(names(iter(entries).sortedBy((e) => e.rank)), [
+    "a",
+    "b",
+    "c",
+    "d",
+  ]);
+  const sets = iter(new Set([3, 1, 2])).sorted();
+  assertInstanceOf(sets, ExactSizedIter);
+  assertEquals(sets.len(), 3);
+  assertEquals(generated([3, 1]).sorted().sizeHint(), [0, undefined]);
+  assertEquals([...iter<number>([]).sorted()], []);
+});
+
+Deno.test("sortedBy computes each key once", () => {
+  let calls = 0;
+  const sorted = iter([5, 3, 4, 1, 2]).sortedBy((x) => (calls++, -x));
+  assertEquals([...sorted], [5, 4, 3, 2, 1]);
+  assertEquals(calls, 5);
+});
+
+Deno.test("unique, uniqueBy and dedup drop repeats", () => {
+  assertEquals([...iter([1, 2, 1, 3, 2]).unique()], [1, 2, 3]);
+  assertEquals(names(iter(entries).uniqueBy((e) => e.rank)), ["c", "a"]);
+  assertEquals([...iter([1, 1, 2, 1, 1, 3, 3]).dedup()], [1, 2, 1, 3]);
+  for (const it of [iter([1, 1]).unique(), iter([1, 1]).dedup()]) {
+    assertEquals(it.sizeHint(), [0, 2]);
+  }
+  assertEquals([...iter([]).unique()], []);
+  assertEquals([...iter([]).dedup()], []);
+  assertEquals([...counting(0, 0).dedup().take(1)], [0]);
+});
+
+Deno.test("mergeSorted merges lazily and keeps ties in source order", () => {
+  assertEquals([...iter([1, 4, 7]).mergeSorted([2, 5], [3, 6, 8, 9])], [
+    1,
+    2,
+    3,
+    4,
+    5,
+    6,
+    7,
+    8,
+    9,
+  ]);
+  assertEquals(
+    names(
+      iter([entries[1], entries[0]]).mergeSortedWith(
+        [[entries[3], entries[2]]],
+        byRank,
+      ),
+    ),
+    ["a", "b", "c", "d"],
+  );
+  assertEquals([...counting(0, 3).mergeSorted(counting(1, 3)).take(5)], [
+    0,
+    1,
+    3,
+    4,
+    6,
+  ]);
+  assertEquals([...iter<number>([]).mergeSorted([], [2])], [2]);
+  assertEquals([...iter<number>([]).mergeSorted()], []);
+  assertEquals(iter([1]).mergeSorted([2, 3]).sizeHint(), [3, 3]);
+  assertEquals(iter([1]).mergeSorted(generated([2])).sizeHint(), [
+    1,
+    undefined,
+  ]);
+});
+
+Deno.test("topK and bottomK keep k items in order, ties in source order", () => {
+  assertEquals([...iter([4, 1, 5, 2, 3]).topK(2)], [5, 4]);
+  assertEquals([...iter([4, 1, 5, 2, 3]).bottomK(2)], [1, 2]);
+  assertEquals(names(iter(entries).topK(3, byRank)), ["c", "d", "a"]);
+  assertEquals(names(iter(entries).bottomK(3, byRank)), ["a", "b", "c"]);
+  assertEquals([...iter([2, 1]).topK(5)], [2, 1]);
+  assertEquals([...iter([2, 1]).topK(0)], []);
+  assertEquals([...iter([3, 1, 2]).topK(2.7)], [3, 2]);
+  assertEquals([...iter<number>([]).bottomK(3)], []);
+});
+
+Deno.test("topK and bottomK size their output like take", () => {
+  const sets = iter(new Set([4, 1, 5])).topK(2);
+  assertInstanceOf(sets, ExactSizedIter);
+  assertEquals(sets.len(), 2);
+  assertEquals(iter(new Set([4, 1])).bottomK(5).len(), 2);
+  assertEquals(iter(new Set([4, 1])).bottomK(1.5).len(), 1);
+  assertEquals(generated([4, 1]).topK(3).sizeHint(), [0, 3]);
+  for (const k of [-1, NaN]) {
+    assertThrows(() => iter(new Set([1])).topK(k), RangeError);
+    assertThrows(() => generated([1]).bottomK(k), RangeError);
+  }
+});
+
+Deno.test("isSorted stops at the first pair out of order", () => {
+  assertEquals(iter([1, 2, 2, 3]).isSorted(), true);
+  assertEquals(iter([1, 3, 2]).isSorted(), false);
+  assertEquals(iter([3, 2, 1]).isSorted((a, b) => b - a), true);
+  assertEquals(iter([]).isSorted(), true);
+  assertEquals(counting(5, -1).isSorted(), false);
+});
+
+Deno.test("min, max and minMax keep the first of equal items", () => {
+  assertEquals(iter([3, 1, 4, 1, 5]).min(), some(1));
+  assertEquals(iter([3, 1, 4, 1, 5]).max(), some(5));
+  assertEquals(iter([3, 1, 4, 1, 5]).minMax(), some([1, 5]));
+  assertEquals(iter(entries).min(byRank).unwrap().name, "a");
+  assertEquals(iter(entries).max(byRank).unwrap().name, "c");
+  assertEquals(
+    iter(entries).minMax(byRank).unwrap().map((entry) => entry.name),
+    ["a", "c"],
+  );
+  assertEquals(iter([7]).minMax(), some([7, 7]));
+  assertEquals(iter<number>([]).min(), none);
+  assertEquals(iter<number>([]).max(), none);
+  assertEquals(iter<number>([]).minMax(), none);
+});
+
+Deno.test("ordering operators match the methods", () => {
+  const items = [3, 1, 2, 3, 1];
+  assertEquals(pipe(items, operators.sorted(), operators.toArray), [
+    1,
+    1,
+    2,
+    3,
+    3,
+  ]);
+  assertEquals(
+    pipe(items, operators.sortedBy((x) => -x), operators.toArray),
+    [3, 3, 2, 1, 1],
+  );
+  assertEquals(pipe(items, operators.unique, operators.toArray), [3, 1, 2]);
+  assertEquals(
+    pipe(items, operators.uniqueBy((x) => x % 2), operators.toArray),
+    [3, 2],
+  );
+  assertEquals(pipe([1, 1, 2, 2, 1], operators.dedup, operators.toArray), [
+    1,
+    2,
+    1,
+  ]);
+  assertEquals(
+    pipe([1, 3], operators.mergeSorted([2]), operators.toArray),
+    [1, 2, 3],
+  );
+  assertEquals(pipe(items, operators.topK(2), operators.toArray), [3, 3]);
+  assertEquals(pipe(items, operators.bottomK(2), operators.toArray), [1, 1]);
+  assertEquals(pipe(items, operators.isSorted()), false);
+  assertEquals(pipe(items, operators.min()), some(1));
+  assertEquals(pipe(items, operators.max()), some(3));
+  assertEquals(pipe(items, operators.minMax()), some([1, 3]));
+});
@@ -0,0 +1,119 @@
+import type { AsyncGenFn } from "../types.ts";
+import { assertSize } from "./utils.ts";
+
+export type ParMapOptions = {
+  /** Number of workers in the pool, the number of CPU cores by default. */
+  workers?: number;
+  /** Yield results in source order (the default) or as chunks complete. */
+  ordered?: boolean;
+  /** Number of items sent to a worker at once, `16` by default. */
+  chunkSize?: number;
+};
+
+const WORKER = new URL("./parallel_worker.ts", import.meta.url);
+
+/**
+ * Maps items on a pool of Web Workers with the default export of the module
+ * at `task`, which must be an absolute URL such as
+ * `new URL("./task.ts", import.meta.url)`. Items and results are passed by
+ * structured clone.
+ *
+ * Each pass starts its own pool and terminates it when the pass ends. At most
+ * two chunks per worker are read ahead of the consumer, so memory stays
+ * bounded however large the source is. Starting the workers needs read
+ * access to this module, or net access when it is loaded remotely.
+ */
+export function parMap<T, U>(
+  task: URL | string,
+  options: ParMapOptions = {},
+): (gen: AsyncGenFn<T>) => AsyncGenFn<U> {
+  const {
+    workers = navigator.hardwareConcurrency ?? 4,
+    ordered = true,
+    chunkSize = 16,
+  } = options;
+  assertSize(workers, "Worker count");
+  assertSize(chunkSize, "Chunk size");
+  const url = new URL(task).href;
+  return (gen) =>
+    async function* () {
+      const pool = Array.from({ length: workers }, () => {
+        const worker = new Worker(WORKER, { type: "module" });
+        worker.postMessage(url);
+        return worker;
+      });
+      const idle = [...pool];
+      const running = new Map<number, Promise<[number, Array<U>]>>();
+      const finished = new Map<number, Array<U>>();
+      const source = gen();
+      let exhausted = false;
+      let sent = 0;
+      let yielded = 0;
+      try {
+        while (true) {
+          // 🔹 Backpressure: stop reading once `2 * workers` chunks are sent
+          // but not yielded yet
+          while (
+            !exhausted && idle.length > 0 && sent - yielded < 2 * workers
+          ) {
+            const chunk = await readChunk(source, chunkSize);
+            if (chunk.length === 0) {
+              exhausted = true;
+              break;
+            }
+            const id = sent++;
+            const worker = idle.pop()!;
+            const job = run<T, U>(worker, chunk).then((results) => {
+              idle.push(worker);
+              return [id, results] as [number, Array<U>];
+            });
+            job.catch(() => {}); // 🔹 Surfaced by the race below
+            running.set(id, job);
+          }
+
+          const next = ordered ? yielded : finished.keys().next().value;
+          if (next !== undefined && finished.has(next)) {
+            const results = finished.get(next)!;
+            finished.delete(next);
+            yielded++;
+            yield* results;
+            continue;
+          }
+          if (running.size === 0) return;
+          const [id, results] = await Promise.race(running.values());
+          running.delete(id);
+          finished.set(id, results);
+        }
+      } finally {
+        for (const worker of pool) worker.terminate();
+        await source.return(undefined);
+      }
+    };
+}
+
+async function readChunk<T>(
+  source: AsyncGenerator<T>,
+  size: number,
+): Promise<Array<T>> {
+  const chunk: Array<T> = [];
+  while (chunk.length < size) {
+    const result = await source.next();
+    if (result.done) break;
+    chunk.push(result.value);
+  }
+  return chunk;
+}
+
+function run<T, U>(worker: Worker, items: Array<T>): Promise<Array<U>> {
+  return new Promise((resolve, reject) => {
+    worker.onmessage = ({ data }) => {
+      if ("error" in data) reject(data.error);
+      else resolve(data.results);
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      reject(event.error ?? new Error(event.message));
+    };
+    worker.postMessage(items);
+  });
+}
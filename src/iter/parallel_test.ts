@@ -0,0 +1,117 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { AsyncIter } from "./async_iter.ts";
+import { iter } from "./mod.ts";
+import { range } from "./range.ts";
+
+const task = new URL("./testdata/double.ts", import.meta.url);
+
+/** Yields `0` to `n - 1`, counting the items pulled and noting the close. */
+function counted(n: number) {
+  const state = { pulled: 0, closed: false };
+  const source = new AsyncIter(async function* () {
+    try {
+      for (let i = 0; i < n; i++) {
+        state.pulled++;
+        yield i;
+      }
+    } finally {
+      state.closed = true;
+    }
+  });
+  return { source, state };
+}
+
+/** Counts the workers terminated while `fn` runs. */
+async function terminations(fn: () => Promise<void>): Promise<number> {
+  const terminate = Worker.prototype.terminate;
+  let count = 0;
+  Worker.prototype.terminate = function () {
+    count++;
+    terminate.call(this);
+  };
+  try {
+    await fn();
+  } finally {
+    Worker.prototype.terminate = terminate;
+  }
+  return count;
+}
+
+Deno.test("parMap yields the results in source order", async () => {
+  const results = await Array.fromAsync(
+    range(50).parMap<number>(task, { workers: 3, chunkSize: 4 }),
+  );
+  assertEquals(results, [...range(50).map((x) => x * 2)]);
+});
+
+Deno.test("parMap yields every result when unordered", async () => {
+  const results = await Array.fromAsync(
+    range(50).parMap<number>(task, {
+      workers: 3,
+      chunkSize: 4,
+      ordered: false,
+    }),
+  );
+  assertEquals(
+    results.toSorted((a, b) => a - b),
+    [...range(50).map((x) => x * 2)],
+  );
+});
+
+Deno.test("parMap passes a worker's error to the caller", async () => {
+  const count = await terminations(async () => {
+    await assertRejects(
+      () =>
+        iter([1, 2, -3, 4])
+          .parMap<number>(task, { workers: 2, chunkSize: 1 })
+          .forEach(() => {}),
+      Error,
+      "Negative item -3",
+    );
+  });
+  assertEquals(count, 2);
+});
+
+Deno.test("parMap stops its workers and the source on break", async () => {
+  const { source, state } = counted(1000);
+  const count = await terminations(async () => {
+    for await (const _ of source.parMap(task, { workers: 2, chunkSize: 4 })) {
+      break;
+    }
+  });
+  assertEquals(count, 2);
+  assert(state.closed, "the source was left open");
+  const pulled = state.pulled;
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  assertEquals(state.pulled, pulled);
+  assert(pulled < 1000, `pulled all ${pulled} items`);
+});
+
+Deno.test("parMap stops its workers and the source on return", async () => {
+  const { source, state } = counted(1000);
+  const count = await terminations(async () => {
+    const results = source.parMap(task, { workers: 2, chunkSize: 4 });
+    const it = results[Symbol.asyncIterator]();
+    await it.next();
+    await it.return(undefined);
+  });
+  assertEquals(count, 2);
+  assert(state.closed, "the source was left open");
+});
+
+Deno.test("parMap reads at most two chunks per worker ahead", async () => {
+  const workers = 2;
+  const chunkSize = 4;
+  // 🔹 The chunk being yielded, plus two per worker sent but not yielded
+  const bound = (2 * workers + 1) * chunkSize;
+  const { source, state } = counted(200);
+  let consumed = 0;
+  let ahead = 0;
+  for await (const _ of source.parMap(task, { workers, chunkSize })) {
+    consumed++;
+    ahead = Math.max(ahead, state.pulled - consumed);
+    await new Promise((resolve) => setTimeout(resolve, 1));
+  }
+  assertEquals(consumed, 200);
+  assert(ahead <= bound, `read ${ahead} items ahead, more than ${bound}`);
+});
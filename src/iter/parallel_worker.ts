@@ -0,0 +1,27 @@
+// 🔹 Runs in a Web Worker started by `parMap`. The first message names the
+// task module; every later one is a chunk of items to map with its default
+// export, answered with the results in the same order or with the error.
+
+type Scope = {
+  onmessage: ((event: MessageEvent) => void) | null;
+  postMessage(message: unknown): void;
+};
+
+const scope = globalThis as unknown as Scope;
+let task: Promise<(item: unknown) => unknown> | undefined;
+
+scope.onmessage = async ({ data }) => {
+  if (task === undefined) {
+    task = import(data).then((module) => module.default);
+    task.catch(() => {}); // 🔹 Reported with the first chunk
+    return;
+  }
+  try {
+    const fn = await task;
+    const results = [];
+    for (const item of data) results.push(await fn(item));
+    scope.postMessage({ results });
+  } catch (error) {
+    scope.postMessage({ error });
+  }
+};
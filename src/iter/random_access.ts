@@ -0,0 +1,95 @@
+import { none, type Option, some } from "../option.ts";
+import { DoubleEndedIter } from "./double_ended.ts";
+import { registerTiers } from "./iter.ts";
+import { assertSize, clampIndex, toCount } from "./utils.ts";
+
+/**
+ * A double-ended iterator whose items can be read by index, such as a view
+ * over an array or a range. Indexing, slicing, `skip` and `take` run in O(1)
+ * instead of stepping through the items before them.
+ *
+ * `map`, `enumerate`, `rev` and `stepBy` stay random-access: they wrap the
+ * index function rather than the generators, so the callbacks run once per
+ * item read, every time it is read.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { iter } from "@blazes/iter";
+ *
+ * const big = iter(Array.from({ length: 1_000_000 }, (_, i) => i));
+ * const view = big.skip(999_990).map((x) => x * 2);
+ * assertEquals(view.at(0).unwrap(), 1_999_980);
+ * assertEquals(view.at(-1).unwrap(), 1_999_998);
+ * assertEquals([...view.slice(2, 4)], [1_999_984, 1_999_986]);
+ * ```
+ */
+export class RandomAccessIter<T> extends DoubleEndedIter<T> {
+  protected _at: (index: number) => T;
+
+  /** `at` is only called with indices in `[0, len)`. */
+  constructor(at: (index: number) => T, len: number) {
+    super(
+      function* () {
+        for (let i = 0; i < len; i++) yield at(i);
+      },
+      function* () {
+        for (let i = len - 1; i >= 0; i--) yield at(i);
+      },
+      len,
+    );
+    this._at = at;
+  }
+
+  /** The item at index `i`, counting back from the end when negative. */
+  at(i: number): Option<T> {
+    const k = i < 0 ? this._len + i : i;
+    if (!Number.isInteger(k) || k < 0 || k >= this._len) return none;
+    return some(this._at(k));
+  }
+
+  override nth(n: number): Option<T> {
+    if (!Number.isInteger(n) || n < 0 || n >= this._len) return none;
+    return some(this._at(n));
+  }
+
+  /** The items from index `from` up to `to`, with `Array#slice` semantics. */
+  slice(from: number = 0, to: number = this._len): RandomAccessIter<T> {
+    const a = clampIndex(from, this._len);
+    const b = Math.max(a, clampIndex(to, this._len));
+    const at = this._at;
+    return new RandomAccessIter((i) => at(a + i), b - a);
+  }
+
+  override take(n: number): RandomAccessIter<T> {
+    return this.slice(0, toCount(n));
+  }
+
+  override skip(n: number): RandomAccessIter<T> {
+    return this.slice(toCount(n));
+  }
+
+  override rev(): RandomAccessIter<T> {
+    const at = this._at;
+    const last = this._len - 1;
+    return new RandomAccessIter((i) => at(last - i), this._len);
+  }
+
+  override map<U>(fn: (item: T, index: number) => U): RandomAccessIter<U> {
+    const at = this._at;
+    return new RandomAccessIter((i) => fn(at(i), i), this._len);
+  }
+
+  override enumerate(): RandomAccessIter<[number, T]> {
+    const at = this._at;
+    return new RandomAccessIter((i): [number, T] => [i, at(i)], this._len);
+  }
+
+  override stepBy(n: number): RandomAccessIter<T> {
+    assertSize(n, "Step");
+    const at = this._at;
+    return new RandomAccessIter((i) => at(i * n), Math.ceil(this._len / n));
+  }
+}
+
+registerTiers({ RandomAccessIter });
@@ -1,8 +1,29 @@
-import { DoubleEndedIter } from "./double_ended.ts";
+import type { GenFn } from "../types.ts";
+import { RandomAccessIter } from "./random_access.ts";
+import { clampIndex, toCount } from "./utils.ts";
+
+/**
+ * A calendar step for `Date` ranges. Years and months are added on the
+ * calendar (clamping to the end of shorter months), the rest as fixed
+ * durations. All fields are applied in UTC.
+ */
+export type DateStep = {
+  years?: number;
+  months?: number;
+  weeks?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+  milliseconds?: number;
+};
 
 /**
  * Creates a generator function that yields a sequence of numbers.
  *
+ * Each value is computed as `start + k * step`, so floating-point steps do not
+ * accumulate error.
+ *
  * @param start - The starting value.
  * @param end - The ending value (exclusive).
  * @param step - The step value (default: `1`).
@@ -17,13 +38,15 @@ import { DoubleEndedIter } from "./double_ended.ts";
  * assertEquals([...rangeGen(2, 10, 2)()], [2, 4, 6, 8]);
  * ```
  */
-export function rangeGen(start: number, end: number, step: number = 1) {
+export function rangeGen(
+  start: number,
+  end: number,
+  step: number = 1,
+): GenFn<number> {
   return function* () {
     if (step === 0) throw new Error("Step cannot be 0");
-    const min = Math.min(start, end);
-    for (let i = start; min === start ? i < end : i > end; i += step) {
-      yield i;
-    }
+    const len = stepCount(start, end, step, false);
+    for (let k = 0; k < len; k++) yield start + k * step;
   };
 }
 
@@ -42,22 +65,182 @@ export function rangeGen(start: number, end: number, step: number = 1) {
  * import { assertEquals } from "@std/assert";
  * assertEquals(getRangeParams(5), [0, 5]);
  * assertEquals(getRangeParams(2, 10), [2, 10]);
+ * assertEquals(getRangeParams(5n), [0n, 5n]);
  * ```
  *
  * @see {@link range}
  * @see {@link irange}
  */
-export function getRangeParams(arg1: number, arg2?: number): [number, number] {
+export function getRangeParams(arg1: number, arg2?: number): [number, number];
+export function getRangeParams(arg1: bigint, arg2?: bigint): [bigint, bigint];
+export function getRangeParams(
+  arg1: number | bigint,
+  arg2?: number | bigint,
+): [number | bigint, number | bigint] {
   const end = arg2 ?? arg1;
-  const start = arg2 !== undefined ? arg1 : 0;
+  const start = arg2 !== undefined ? arg1 : typeof arg1 === "bigint" ? 0n : 0;
   return [start, end];
 }
 
+/**
+ * A numeric range that remembers its bounds, so membership, indexing and
+ * slicing are answered in O(1) instead of by walking the sequence. Returned by
+ * the number overloads of {@link range} and {@link irange}, and usable with
+ * every `Iter` combinator.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * const r = range(0, 100, 3);
+ * assertEquals(r.contains(37), false);
+ * assertEquals(r.contains(36), true);
+ * assertEquals(r.at(10).unwrap(), 30);
+ * assertEquals([...r.slice(2, 5)], [6, 9, 12]);
+ * assertEquals([...r.intersect(range(0, 100, 4)).take(3)], [0, 12, 24]);
+ * assertEquals(irange(0, 9, 3).equals(range(0, 10, 3)), true);
+ * ```
+ */
+export class Range extends RandomAccessIter<number> {
+  readonly start: number;
+  readonly end: number;
+  readonly step: number;
+  readonly inclusive: boolean;
+
+  constructor(
+    start: number,
+    end: number,
+    step: number = 1,
+    inclusive: boolean = false,
+  ) {
+    if (step === 0) throw new Error("Step cannot be 0");
+    const len = stepCount(start, end, step, inclusive);
+    // 🔹 An inclusive range that lands on `end` ends on exactly `end`
+    const landsOnEnd = inclusive && snap((end - start) / step) === len - 1;
+    const at = (k: number) =>
+      landsOnEnd && k === len - 1 ? end : start + k * step;
+    super(at, len);
+    this.start = start;
+    this.end = end;
+    this.step = step;
+    this.inclusive = inclusive;
+  }
+
+  contains(value: number): boolean {
+    const k = snap((value - this.start) / this.step);
+    return Number.isInteger(k) && k >= 0 && k < this._len;
+  }
+
+  /** The items from index `from` up to `to`, with `Array#slice` semantics. */
+  override slice(from: number = 0, to: number = this._len): Range {
+    const a = clampIndex(from, this._len);
+    const b = Math.max(a, clampIndex(to, this._len));
+    const slice = b === this._len && a < b
+      ? new Range(this._at(a), this.end, this.step, this.inclusive)
+      : new Range(
+        this.start + a * this.step,
+        this.start + b * this.step,
+        this.step,
+      );
+    const at = this._at;
+    return slice._readBy((i) => at(a + i), b - a);
+  }
+
+  override take(n: number): Range {
+    return this.slice(0, toCount(n));
+  }
+
+  override skip(n: number): Range {
+    return this.slice(toCount(n));
+  }
+
+  override rev(): Range {
+    if (this._len === 0) return this;
+    const at = this._at;
+    const last = this._len - 1;
+    return new Range(at(last), this.start, -this.step, true)
+      ._readBy((i) => at(last - i), this._len);
+  }
+
+  /**
+   * Reads `len` items through `at`, keeping the bounds. Slices and reversals
+   * read their source's items by index, so floating-point values and lengths
+   * match it exactly instead of being recomputed from the new bounds.
+   */
+  private _readBy(at: (index: number) => number, len: number): this {
+    this._len = len;
+    this._at = at;
+    this._gen = function* () {
+      for (let i = 0; i < len; i++) yield at(i);
+    };
+    this._rgen = function* () {
+      for (let i = len - 1; i >= 0; i--) yield at(i);
+    };
+    return this;
+  }
+
+  /**
+   * The items present in both ranges, in ascending order.
+   *
+   * @throws {Error} If either range has non-integer values or step.
+   */
+  intersect(other: Range): Range {
+    if (this._len === 0 || other._len === 0) return new Range(0, 0);
+    const a = ascending(this);
+    const b = ascending(other);
+    if (![...a, ...b].every(Number.isInteger)) {
+      throw new Error("Only integer ranges can be intersected");
+    }
+
+    // 🔹 Solve x ≡ a.first (mod a.step), x ≡ b.first (mod b.step)
+    const [gcd, x] = extendedGcd(a[2], b[2]);
+    const diff = b[0] - a[0];
+    if (diff % gcd !== 0) return new Range(0, 0);
+    const period = (a[2] / gcd) * b[2];
+    const modulus = b[2] / gcd;
+    const k = ((((diff / gcd) * x) % modulus) + modulus) % modulus;
+    let first = a[0] + a[2] * k;
+    const low = Math.max(a[0], b[0]);
+    const high = Math.min(a[1], b[1]);
+    if (first < low) first += Math.ceil((low - first) / period) * period;
+    if (first > high) return new Range(0, 0);
+    return new Range(first, high, period, true);
+  }
+
+  /** Whether both ranges yield the same sequence. */
+  equals(other: Range): boolean {
+    if (this._len !== other._len) return false;
+    return this._len === 0 ||
+      (this._at(0) === other._at(0) &&
+        this._at(this._len - 1) === other._at(other._len - 1));
+  }
+}
+
+/** A non-empty range as `[first, last, step]` with a positive step. */
+function ascending(range: Range): [number, number, number] {
+  const first = range.at(0).unwrap();
+  const last = range.at(-1).unwrap();
+  return range.step > 0
+    ? [first, last, range.step]
+    : [last, first, -range.step];
+}
+
+/** Returns `[gcd, x]` such that `a * x + b * y = gcd` for some `y`. */
+function extendedGcd(a: number, b: number): [number, number] {
+  let [oldR, r] = [a, b];
+  let [oldX, x] = [1, 0];
+  while (r !== 0) {
+    const q = Math.floor(oldR / r);
+    [oldR, r] = [r, oldR - q * r];
+    [oldX, x] = [x, oldX - q * x];
+  }
+  return [oldR, oldX];
+}
+
 /**
  * Creates an iterable range of numbers from `0` to `end - 1`.
  *
  * @param end - The upper bound (exclusive).
- * @returns A `DoubleEndedIter<number>` instance.
+ * @returns A `Range` instance.
  *
  * @example
  * ```ts
@@ -65,14 +248,14 @@ export function getRangeParams(arg1: number, arg2?: number): [number, number] {
  * assertEquals([...range(5)], [0, 1, 2, 3, 4]);
  * ```
  */
-export function range(end: number): DoubleEndedIter<number>;
+export function range(end: number): Range;
 
 /**
  * Creates an iterable range of numbers from `start` to `end - 1`.
  *
  * @param start - The lower bound of the range.
  * @param end - The upper bound (exclusive).
- * @returns A `DoubleEndedIter<number>` instance.
+ * @returns A `Range` instance.
  *
  * @example
  * ```ts
@@ -80,15 +263,19 @@ export function range(end: number): DoubleEndedIter<number>;
  * assertEquals([...range(2, 6)], [2, 3, 4, 5]);
  * ```
  */
-export function range(start: number, end: number): DoubleEndedIter<number>;
+export function range(start: number, end: number): Range;
 
 /**
  * Creates an iterable range of numbers from `start` to `end - 1`, incrementing by `step`.
  *
+ * Each value is computed as `start + k * step`, so fractional steps do not
+ * drift, and the length always matches the values produced in either
+ * direction.
+ *
  * @param start - The lower bound of the range.
  * @param end - The upper bound (exclusive).
  * @param step - The increment step (default: `1`).
- * @returns A `DoubleEndedIter<number>` instance.
+ * @returns A `Range` instance.
  *
  * @throws {Error} If `step` is `0`, as zero-step iteration is invalid.
  *
@@ -97,40 +284,108 @@ export function range(start: number, end: number): DoubleEndedIter<number>;
  * import { assertEquals } from "@std/assert";
  * assertEquals([...range(1, 10, 2)], [1, 3, 5, 7, 9]);
  * assertEquals([...range(10, 0, -2)], [10, 8, 6, 4, 2]);
+ * assertEquals(range(0, 1, 0.1).len(), 10);
  * ```
  */
 export function range(
   start: number,
   end: number,
   step: number,
-): DoubleEndedIter<number>;
+): Range;
 
+/**
+ * Creates an iterable range of `bigint`s from `0n` to `end - 1n`.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * assertEquals([...range(3n)], [0n, 1n, 2n]);
+ * ```
+ */
+export function range(end: bigint): RandomAccessIter<bigint>;
+
+/**
+ * Creates an iterable range of `bigint`s from `start` to `end - 1n`, incrementing by `step`.
+ *
+ * @throws {Error} If `step` is `0n`.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * assertEquals([...range(2n ** 64n, 2n ** 64n + 6n, 2n)], [
+ *   2n ** 64n,
+ *   2n ** 64n + 2n,
+ *   2n ** 64n + 4n,
+ * ]);
+ * ```
+ */
 export function range(
-  arg1: number,
-  arg2?: number,
-  step: number = 1,
-): DoubleEndedIter<number> {
-  const [start, end] = getRangeParams(arg1, arg2);
+  start: bigint,
+  end: bigint,
+  step?: bigint,
+): RandomAccessIter<bigint>;
 
-  if (step === 0) throw new Error("Step cannot be 0");
+/**
+ * Creates an iterable range of characters, by code point, from `start` up to
+ * but excluding `end`.
+ *
+ * @throws {Error} If `start` or `end` is not a single code point, or `step`
+ * is not a non-zero integer.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * assertEquals([...range("a", "e")], ["a", "b", "c", "d"]);
+ * assertEquals([...range("e", "a", -2)], ["e", "c"]);
+ * ```
+ */
+export function range(
+  start: string,
+  end: string,
+  step?: number,
+): RandomAccessIter<string>;
 
-  if ((step > 0 && start >= end) || (step < 0 && start <= end)) {
-    return new DoubleEndedIter(rangeGen(0, 0), rangeGen(0, 0), 0); // Empty range
-  }
+/**
+ * Creates an iterable range of dates from `start` up to but excluding `end`,
+ * advancing by a calendar `step` (default: one day).
+ *
+ * @throws {Error} If `step` does not move the date.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * const months = range(
+ *   new Date("2024-01-31"),
+ *   new Date("2024-05-01"),
+ *   { months: 1 },
+ * );
+ * assertEquals([...months.map((d) => d.toISOString().slice(0, 10))], [
+ *   "2024-01-31",
+ *   "2024-02-29",
+ *   "2024-03-31",
+ *   "2024-04-30",
+ * ]);
+ * ```
+ */
+export function range(
+  start: Date,
+  end: Date,
+  step?: DateStep,
+): RandomAccessIter<Date>;
 
-  const last = end - ((end - start) % step || step);
-  return new DoubleEndedIter(
-    rangeGen(start, end, step),
-    rangeGen(last, start - step, -step),
-    Math.ceil(Math.abs(end - start) / Math.abs(step)),
-  );
+export function range(
+  arg1: RangeBound,
+  arg2?: RangeBound,
+  step?: RangeStep,
+): RandomAccessIter<RangeBound> {
+  return buildRange(arg1, arg2, step, false);
 }
 
 /**
  * Creates an iterable range of numbers from `0` to `end`, **including `end`**.
  *
  * @param end - The upper bound (inclusive).
- * @returns A `DoubleEndedIter<number>` instance.
+ * @returns A `Range` instance.
  *
  * @example
  * ```ts
@@ -138,14 +393,14 @@ export function range(
  * assertEquals([...irange(3)], [0, 1, 2, 3]);
  * ```
  */
-export function irange(end: number): DoubleEndedIter<number>;
+export function irange(end: number): Range;
 
 /**
  * Creates an iterable range of numbers from `start` to `end`, **including `end`**.
  *
  * @param start - The lower bound of the range.
  * @param end - The upper bound (inclusive).
- * @returns A `DoubleEndedIter<number>` instance.
+ * @returns A `Range` instance.
  *
  * @example
  * ```ts
@@ -153,21 +408,18 @@ export function irange(end: number): DoubleEndedIter<number>;
  * assertEquals([...irange(2, 5)], [2, 3, 4, 5]);
  * ```
  */
-export function irange(start: number, end: number): DoubleEndedIter<number>;
-
-export function irange(
-  start: number,
-  end: number,
-  step: number,
-): DoubleEndedIter<number>;
+export function irange(start: number, end: number): Range;
 
 /**
  * Creates an iterable range of numbers from `start` to `end`, **including `end`**, using a custom `step`.
  *
+ * When `end` is reached within floating-point error, the last value is
+ * exactly `end`.
+ *
  * @param start - The lower bound of the range.
  * @param end - The upper bound (inclusive).
  * @param step - The increment step (default: `1`).
- * @returns A `DoubleEndedIter<number>` instance.
+ * @returns A `Range` instance.
  *
  * @throws {Error} If `step` is `0`, as zero-step iteration is invalid.
  *
@@ -176,24 +428,213 @@ export function irange(
  * import { assertEquals } from "@std/assert";
  * assertEquals([...irange(1, 10, 2)], [1, 3, 5, 7, 9]);
  * assertEquals([...irange(10, 0, -2)], [10, 8, 6, 4, 2, 0]);
+ * assertEquals([...irange(0, 0.3, 0.1)].at(-1), 0.3);
  * ```
  */
 export function irange(
-  arg1: number,
-  arg2?: number,
-  step: number = 1,
-): DoubleEndedIter<number> {
-  const [start, end] = getRangeParams(arg1, arg2);
+  start: number,
+  end: number,
+  step: number,
+): Range;
+
+/** Like the `bigint` {@link range}, but **including `end`**. */
+export function irange(end: bigint): RandomAccessIter<bigint>;
+/** Like the `bigint` {@link range}, but **including `end`**. */
+export function irange(
+  start: bigint,
+  end: bigint,
+  step?: bigint,
+): RandomAccessIter<bigint>;
+
+/**
+ * Like the character {@link range}, but **including `end`**.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * assertEquals(irange("a", "z").len(), 26);
+ * ```
+ */
+export function irange(
+  start: string,
+  end: string,
+  step?: number,
+): RandomAccessIter<string>;
+
+/** Like the `Date` {@link range}, but **including `end`**. */
+export function irange(
+  start: Date,
+  end: Date,
+  step?: DateStep,
+): RandomAccessIter<Date>;
+
+export function irange(
+  arg1: RangeBound,
+  arg2?: RangeBound,
+  step?: RangeStep,
+): RandomAccessIter<RangeBound> {
+  return buildRange(arg1, arg2, step, true);
+}
+
+/**
+ * Creates `n` evenly spaced numbers from `start` to `end`, both included.
+ *
+ * @throws {Error} If `n` is negative or not an integer.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * assertEquals([...linspace(0, 1, 5)], [0, 0.25, 0.5, 0.75, 1]);
+ * assertEquals([...linspace(0, 1, 1)], [0]);
+ * ```
+ */
+export function linspace(
+  start: number,
+  end: number,
+  n: number,
+): RandomAccessIter<number> {
+  if (!Number.isInteger(n) || n < 0) {
+    throw new Error("Count must be a non-negative integer");
+  }
+  const step = n > 1 ? (end - start) / (n - 1) : 0;
+  return new RandomAccessIter(
+    (k) => (k === n - 1 && n > 1 ? end : start + k * step),
+    n,
+  );
+}
+
+type RangeBound = number | bigint | string | Date;
+type RangeStep = number | bigint | DateStep;
+
+function buildRange(
+  arg1: RangeBound,
+  arg2: RangeBound | undefined,
+  step: RangeStep | undefined,
+  inclusive: boolean,
+): RandomAccessIter<RangeBound> {
+  if (typeof arg1 === "bigint") {
+    const [start, end] = getRangeParams(arg1, arg2 as bigint | undefined);
+    return bigintRange(start, end, (step as bigint) ?? 1n, inclusive);
+  }
+  if (typeof arg1 === "string") {
+    return charRange(arg1, arg2 as string, (step as number) ?? 1, inclusive);
+  }
+  if (arg1 instanceof Date) {
+    const calendarStep = (step as DateStep) ?? { days: 1 };
+    return dateRange(arg1, arg2 as Date, calendarStep, inclusive);
+  }
+  const [start, end] = getRangeParams(arg1, arg2 as number | undefined);
+  return new Range(start, end, (step as number) ?? 1, inclusive);
+}
+
+/**
+ * The number of values `start + k * step` that lie before `end` (or on it,
+ * when `inclusive`). Spans within floating-point error of a whole number of
+ * steps are treated as exact, so `(0.3 - 0) / 0.1` counts as 3 steps.
+ */
+function stepCount(
+  start: number,
+  end: number,
+  step: number,
+  inclusive: boolean,
+): number {
+  const span = snap((end - start) / step);
+  return Math.max(0, inclusive ? Math.floor(span) + 1 : Math.ceil(span));
+}
 
-  if (step === 0) throw new Error("Step cannot be 0");
+function snap(x: number): number {
+  const nearest = Math.round(x);
+  const error = 8 * Number.EPSILON * Math.max(1, Math.abs(x));
+  return Math.abs(x - nearest) <= error ? nearest : x;
+}
 
-  const last = step > 0
-    ? start + Math.floor((end - start) / step) * step
-    : start + Math.ceil((end - start) / step) * step;
+function bigintRange(
+  start: bigint,
+  end: bigint,
+  step: bigint,
+  inclusive: boolean,
+): RandomAccessIter<bigint> {
+  if (step === 0n) throw new Error("Step cannot be 0");
+  const span = step > 0n ? end - start : start - end;
+  const size = step > 0n ? step : -step;
+  const len = inclusive
+    ? (span < 0n ? 0n : span / size + 1n)
+    : (span <= 0n ? 0n : (span + size - 1n) / size);
+  return new RandomAccessIter((k) => start + BigInt(k) * step, Number(len));
+}
 
-  return new DoubleEndedIter(
-    rangeGen(start, last + step, step),
-    rangeGen(last, start - step, -step),
-    Math.floor(Math.abs(end - start) / Math.abs(step)) + 1,
+function charRange(
+  start: string,
+  end: string,
+  step: number,
+  inclusive: boolean,
+): RandomAccessIter<string> {
+  if (!Number.isInteger(step) || step === 0) {
+    throw new Error("Step must be a non-zero integer");
+  }
+  const from = codePoint(start);
+  const len = stepCount(from, codePoint(end), step, inclusive);
+  return new RandomAccessIter(
+    (k) => String.fromCodePoint(from + k * step),
+    len,
   );
 }
+
+function codePoint(char: string): number {
+  const [first, ...rest] = char;
+  if (first === undefined || rest.length > 0) {
+    throw new Error(`Expected a single character, got "${char}"`);
+  }
+  return first.codePointAt(0)!;
+}
+
+function dateRange(
+  start: Date,
+  end: Date,
+  step: DateStep,
+  inclusive: boolean,
+): RandomAccessIter<Date> {
+  const at = (k: number) => addDateStep(start, step, k);
+  const direction = Math.sign(at(1).getTime() - start.getTime());
+  if (!direction) throw new Error("Step cannot be 0");
+  const limit = end.getTime();
+  const within = (k: number) => {
+    const diff = (limit - at(k).getTime()) * direction;
+    return inclusive ? diff >= 0 : diff > 0;
+  };
+
+  // 🔹 Calendar steps vary in length, so search for the first date past `end`
+  let high = 1;
+  while (within(high)) high *= 2;
+  let low = 0;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (within(mid)) low = mid + 1;
+    else high = mid;
+  }
+  return new RandomAccessIter(at, low);
+}
+
+function addDateStep(date: Date, step: DateStep, k: number): Date {
+  const result = new Date(date.getTime());
+  const months = ((step.years ?? 0) * 12 + (step.months ?? 0)) * k;
+  if (months !== 0) {
+    const day = result.getUTCDate();
+    result.setUTCDate(1);
+    result.setUTCMonth(result.getUTCMonth() + months);
+    // 🔹 Jan 31 + 1 month is the last day of February, not early March
+    result.setUTCDate(Math.min(day, daysInMonth(result)));
+  }
+  const ms = ((step.weeks ?? 0) * 7 + (step.days ?? 0)) * 86_400_000 +
+    (step.hours ?? 0) * 3_600_000 +
+    (step.minutes ?? 0) * 60_000 +
+    (step.seconds ?? 0) * 1_000 +
+    (step.milliseconds ?? 0);
+  result.setTime(result.getTime() + ms * k);
+  return result;
+}
+
+function daysInMonth(date: Date): number {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0))
+    .getUTCDate();
+}
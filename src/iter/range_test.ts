@@ -0,0 +1,194 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import type { RandomAccessIter } from "./random_access.ts";
+import { irange, linspace, range, rangeGen } from "./range.ts";
+
+/** A small seeded generator, so a failing range can be replayed. */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+Deno.test("Range.rev() yields the forward values backwards", () => {
+  for (
+    const r of [
+      range(10),
+      range(10, 0, -3),
+      range(0, 1, 0.1),
+      irange(0, 0.3, 0.1),
+      irange(1, 2, 0.25),
+      range(0.5, 7.3, 0.7),
+    ]
+  ) {
+    const forward = [...r];
+    assertEquals([...r.rev()], forward.toReversed());
+    assertEquals([...r.rev().rev()], forward);
+    assertEquals(r.rev().at(0).unwrap(), forward.at(-1));
+  }
+});
+
+Deno.test("Range.rev() keeps floating-point values bit for bit", () => {
+  assertEquals([...range(0, 1, 0.1).rev()].slice(-4), [
+    0.30000000000000004,
+    0.2,
+    0.1,
+    0,
+  ]);
+  assertEquals([...irange(0, 0.3, 0.1).rev()], [
+    0.3,
+    0.2,
+    0.1,
+    0,
+  ]);
+});
+
+Deno.test("Range slices read the values of the range they come from", () => {
+  const r = range(0, 1, 0.1);
+  const forward = [...r];
+  for (let a = -2; a <= 11; a++) {
+    for (let b = -2; b <= 11; b++) {
+      assertEquals([...r.slice(a, b)], forward.slice(a, b));
+      assertEquals([...r.slice(a, b).rev()], forward.slice(a, b).toReversed());
+      assertEquals(
+        [...r.rev().slice(a, b)],
+        forward.toReversed().slice(a, b),
+      );
+    }
+  }
+});
+
+Deno.test("Range.rev() keeps contains() and equals()", () => {
+  const r = range(0, 100, 3);
+  assertEquals(r.rev().contains(36), true);
+  assertEquals(r.rev().contains(37), false);
+  assertEquals(r.rev().rev().equals(r), true);
+});
+
+Deno.test("Range slices and reversals of float steps keep their length", () => {
+  const rand = random(20261019);
+  // 🔹 Bounds and steps with one decimal, where recomputed lengths drift
+  const tenth = (max: number) => Math.round(rand() * max * 10) / 10;
+  for (let run = 0; run < 500; run++) {
+    const start = tenth(20) - 10;
+    const step = (tenth(3) + 0.1) * (rand() < 0.5 ? -1 : 1);
+    const end = start + step * tenth(30);
+    const r = rand() < 0.5 ? range(start, end, step) : irange(start, end, step);
+    const forward = [...r];
+    const a = Math.floor(rand() * (forward.length + 4)) - 2;
+    const b = Math.floor(rand() * (forward.length + 4)) - 2;
+    const message = `${
+      r.inclusive ? "irange" : "range"
+    }(${start}, ${end}, ${step})`;
+    const slice = r.slice(a, b);
+    assertEquals(
+      [...slice],
+      forward.slice(a, b),
+      `slice(${a}, ${b}) of ${message}`,
+    );
+    assertEquals(
+      slice.len(),
+      forward.slice(a, b).length,
+      `slice(${a}, ${b}) of ${message}`,
+    );
+    assertEquals([...r.rev()], forward.toReversed(), `rev of ${message}`);
+    assertEquals(r.rev().len(), forward.length, `rev of ${message}`);
+    assertEquals(
+      [...slice.rev()],
+      forward.slice(a, b).toReversed(),
+      `slice(${a}, ${b}).rev() of ${message}`,
+    );
+  }
+});
+
+/** Checks that `len()`, the size hint, `at()` and `rev()` agree with a pass. */
+function assertConsistent<T>(r: RandomAccessIter<T>, expected: Array<T>) {
+  assertEquals([...r], expected);
+  assertEquals(r.len(), expected.length);
+  assertEquals(r.sizeHint(), [expected.length, expected.length]);
+  assertEquals([...r.rev()], expected.toReversed());
+  expected.forEach((item, k) => assertEquals(r.at(k).unwrap(), item));
+}
+
+Deno.test("float ranges compute every value from start without drift", () => {
+  const r = range(0, 1, 0.1);
+  assertConsistent(r, Array.from({ length: 10 }, (_, k) => k * 0.1));
+  assertEquals(irange(0, 1, 0.1).len(), 11);
+  assertEquals([...irange(0, 1, 0.1)].at(-1), 1);
+  assertEquals([...rangeGen(0, 1, 0.1)()], [...r]);
+  assertEquals([...range(1, 0, -0.25)], [1, 0.75, 0.5, 0.25]);
+});
+
+Deno.test("number ranges that never reach end are empty", () => {
+  for (const r of [range(0), range(5, 5), range(5, 0), range(0, 10, -1)]) {
+    assertConsistent(r, []);
+  }
+  assertConsistent(irange(1, 0), []);
+  assertConsistent(irange(2, 2), [2]);
+  assertThrows(() => range(0, 10, 0), Error, "Step cannot be 0");
+});
+
+Deno.test("bigint ranges count exactly past 2 ** 53", () => {
+  assertConsistent(range(4n), [0n, 1n, 2n, 3n]);
+  assertConsistent(irange(1n, 3n), [1n, 2n, 3n]);
+  assertConsistent(range(10n, 4n, -3n), [10n, 7n]);
+  assertConsistent(irange(10n, 4n, -3n), [10n, 7n, 4n]);
+  const big = 2n ** 60n;
+  assertConsistent(range(big, big + 3n), [big, big + 1n, big + 2n]);
+  assertConsistent(range(3n, 3n), []);
+  assertConsistent(irange(3n, 1n), []);
+  assertThrows(() => range(0n, 5n, 0n), Error, "Step cannot be 0");
+});
+
+Deno.test("char ranges step by code point", () => {
+  assertConsistent(range("a", "e"), ["a", "b", "c", "d"]);
+  assertConsistent(irange("a", "e", 2), ["a", "c", "e"]);
+  assertConsistent(irange("c", "a", -1), ["c", "b", "a"]);
+  assertConsistent(irange("😀", "😂"), ["😀", "😁", "😂"]);
+  assertConsistent(range("a", "a"), []);
+  assertThrows(() => range("ab", "c"), Error, "single character");
+  assertThrows(() => range("", "c"), Error, "single character");
+  assertThrows(() => range("a", "c", 0.5), Error, "non-zero integer");
+});
+
+Deno.test("date ranges step on the calendar in UTC", () => {
+  const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+  const isos = (r: RandomAccessIter<Date>) => [
+    ...r.map((d) => d.toISOString().slice(0, 10)),
+  ];
+  const days = range(day("2024-02-27"), day("2024-03-02"));
+  assertEquals(isos(days), [
+    "2024-02-27",
+    "2024-02-28",
+    "2024-02-29",
+    "2024-03-01",
+  ]);
+  assertEquals(isos(days.rev()), isos(days).toReversed());
+  assertEquals(days.len(), 4);
+  assertEquals(
+    isos(irange(day("2024-03-10"), day("2024-03-01"), { days: -3 })),
+    ["2024-03-10", "2024-03-07", "2024-03-04", "2024-03-01"],
+  );
+  assertEquals(
+    isos(irange(day("2023-01-31"), day("2025-01-31"), { years: 1 })),
+    ["2023-01-31", "2024-01-31", "2025-01-31"],
+  );
+  assertEquals(range(day("2024-01-02"), day("2024-01-01")).len(), 0);
+  assertThrows(
+    () => range(day("2024-01-01"), day("2024-02-01"), {}),
+    Error,
+    "Step cannot be 0",
+  );
+});
+
+Deno.test("linspace includes both ends", () => {
+  assertConsistent(linspace(0, 1, 5), [0, 0.25, 0.5, 0.75, 1]);
+  assertConsistent(linspace(1, 0, 3), [1, 0.5, 0]);
+  assertEquals(linspace(0, 0.3, 4).at(-1).unwrap(), 0.3);
+  assertConsistent(linspace(2, 5, 1), [2]);
+  assertConsistent(linspace(2, 5, 0), []);
+  assertThrows(() => linspace(0, 1, -1), Error);
+  assertThrows(() => linspace(0, 1, 2.5), Error);
+});
@@ -0,0 +1,47 @@
+import type { SizeHint } from "../types.ts";
+import { toCount } from "./utils.ts";
+
+export function takeHint([lower, upper]: SizeHint, n: number): SizeHint {
+  const count = toCount(n);
+  return [
+    Math.min(lower, count),
+    upper === undefined ? count : Math.min(upper, count),
+  ];
+}
+
+export function skipHint([lower, upper]: SizeHint, n: number): SizeHint {
+  const count = toCount(n);
+  return [
+    Math.max(0, lower - count),
+    upper === undefined ? undefined : Math.max(0, upper - count),
+  ];
+}
+
+/** Applies a length formula to both bounds. */
+export function mapHint(
+  [lower, upper]: SizeHint,
+  fn: (len: number) => number,
+): SizeHint {
+  return [fn(lower), upper === undefined ? undefined : fn(upper)];
+}
+
+/** Hint for combinators that may drop any number of items. */
+export function dropHint([, upper]: SizeHint): SizeHint {
+  return [0, upper];
+}
+
+export function zipHint(a: SizeHint, b: SizeHint): SizeHint {
+  const upper = a[1] === undefined
+    ? b[1]
+    : b[1] === undefined
+    ? a[1]
+    : Math.min(a[1], b[1]);
+  return [Math.min(a[0], b[0]), upper];
+}
+
+export function chainHint(a: SizeHint, b: SizeHint): SizeHint {
+  return [
+    a[0] + b[0],
+    a[1] === undefined || b[1] === undefined ? undefined : a[1] + b[1],
+  ];
+}
@@ -0,0 +1,225 @@
+import { type Option, some } from "../option.ts";
+import type { Iterables } from "../types.ts";
+import {
+  cartesianProduct as productOfPools,
+  type CombinatoricIter,
+} from "./combinatorics.ts";
+import { ExactSizedIter } from "./exact_sized.ts";
+import { InfiniteIter, Iter } from "./iter.ts";
+import { RandomAccessIter } from "./random_access.ts";
+import { repeat as repeatGen, toCount } from "./utils.ts";
+
+/**
+ * Builds a sequence from a state: `fn` turns each state into the next item
+ * and the state after it, and `none` ends the sequence. Every pass starts
+ * over from `seed`.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { some } from "@blazes/iter";
+ *
+ * const fib = unfold([0, 1], ([a, b]) => some([a, [b, a + b]]));
+ * assertEquals([...fib.take(7)], [0, 1, 1, 2, 3, 5, 8]);
+ * ```
+ */
+export function unfold<S, T>(
+  seed: S,
+  fn: (state: S) => Option<[T, S]>,
+): Iter<T> {
+  return new Iter(function* () {
+    let state = seed;
+    while (true) {
+      const next = fn(state);
+      if (next.isNone()) return;
+      const [item, after] = next.value;
+      yield item;
+      state = after;
+    }
+  });
+}
+
+/**
+ * The endless sequence `x`, `fn(x)`, `fn(fn(x))`, ...
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * assertEquals([...iterate(1, (x) => x * 2).take(5)], [1, 2, 4, 8, 16]);
+ * ```
+ */
+export function iterate<T>(x: T, fn: (item: T) => T): InfiniteIter<T> {
+  return new InfiniteIter(function* () {
+    let item = x;
+    while (true) {
+      yield item;
+      item = fn(item);
+    }
+  });
+}
+
+/**
+ * Like `iterate`, ending once `fn` returns `none`.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { none, some } from "@blazes/iter";
+ *
+ * const halve = (x: number) => (x > 10 ? some(Math.floor(x / 2)) : none);
+ * const halves = successors(100, halve);
+ * assertEquals([...halves], [100, 50, 25, 12, 6]);
+ * ```
+ */
+export function successors<T>(first: T, fn: (item: T) => Option<T>): Iter<T> {
+  return new Iter(function* () {
+    let next: Option<T> = some(first);
+    while (next.isSome()) {
+      yield next.value;
+      next = fn(next.value);
+    }
+  });
+}
+
+/**
+ * Calls `next` for every item until it returns `none`. `next` keeps its own
+ * state, so a second pass picks up where the first one stopped.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { none, some } from "@blazes/iter";
+ *
+ * const queue = [1, 2, 3];
+ * const next = () => (queue.length > 0 ? some(queue.shift()!) : none);
+ * const drained = fromFn(next);
+ * assertEquals([...drained], [1, 2, 3]);
+ * ```
+ */
+export function fromFn<T>(next: () => Option<T>): Iter<T> {
+  return new Iter(function* () {
+    for (let item = next(); item.isSome(); item = next()) yield item.value;
+  });
+}
+
+/** A sequence of the single item `x`. */
+export function once<T>(x: T): RandomAccessIter<T> {
+  return new RandomAccessIter(() => x, 1);
+}
+
+/** A sequence with no items. */
+export function empty<T = never>(): RandomAccessIter<T> {
+  // 🔹 `at` is never called with a length of 0
+  return new RandomAccessIter(() => undefined as T, 0);
+}
+
+/** The endless sequence `x`, `x`, `x`, ... */
+export function repeat<T>(x: T): InfiniteIter<T> {
+  return new InfiniteIter(repeatGen(x));
+}
+
+/**
+ * `x` repeated `n` times, rounding `n` toward zero like `take`.
+ *
+ * @throws {RangeError} When `n` is negative or `NaN`.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * assertEquals([...repeatN("a", 3)], ["a", "a", "a"]);
+ * assertEquals(repeatN(0, 1_000_000).len(), 1_000_000);
+ * ```
+ */
+export function repeatN<T>(x: T, n: number): RandomAccessIter<T> {
+  return new RandomAccessIter(() => x, toCount(n));
+}
+
+/** The endless sequence of `fn()`, `fn()`, ..., calling `fn` once per item. */
+export function repeatWith<T>(fn: () => T): InfiniteIter<T> {
+  return new InfiniteIter(function* () {
+    while (true) yield fn();
+  });
+}
+
+/**
+ * The `[key, value]` pairs of a `Map`, or of an object's own enumerable string
+ * keys. Object keys are read when this is called, their values when iterated.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * assertEquals([...entries({ a: 1, b: 2 })], [["a", 1], ["b", 2]]);
+ * assertEquals([...entries(new Map([[1, "x"]]))], [[1, "x"]]);
+ * ```
+ */
+export function entries<K, V>(map: Map<K, V>): ExactSizedIter<[K, V]>;
+export function entries<V>(
+  object: Record<string, V>,
+): RandomAccessIter<[string, V]>;
+export function entries<V>(
+  source: Map<unknown, V> | Record<string, V>,
+): ExactSizedIter<[unknown, V]> {
+  if (source instanceof Map) {
+    return new ExactSizedIter(function* () {
+      yield* source.entries();
+    }, source.size);
+  }
+  const names = Object.keys(source);
+  return new RandomAccessIter(
+    (i) => [names[i], source[names[i]]],
+    names.length,
+  );
+}
+
+/** The keys of a `Map`, or an object's own enumerable string keys. */
+export function keys<K>(map: Map<K, unknown>): ExactSizedIter<K>;
+export function keys(object: Record<string, unknown>): RandomAccessIter<string>;
+export function keys(
+  source: Map<unknown, unknown> | Record<string, unknown>,
+): ExactSizedIter<unknown> {
+  if (source instanceof Map) {
+    return new ExactSizedIter(function* () {
+      yield* source.keys();
+    }, source.size);
+  }
+  const names = Object.keys(source);
+  return new RandomAccessIter((i) => names[i], names.length);
+}
+
+/** The values of a `Map`, or of an object's own enumerable string keys. */
+export function values<V>(map: Map<unknown, V>): ExactSizedIter<V>;
+export function values<V>(object: Record<string, V>): RandomAccessIter<V>;
+export function values<V>(
+  source: Map<unknown, V> | Record<string, V>,
+): ExactSizedIter<V> {
+  if (source instanceof Map) {
+    return new ExactSizedIter(function* () {
+      yield* source.values();
+    }, source.size);
+  }
+  const names = Object.keys(source);
+  return new RandomAccessIter((i) => source[names[i]], names.length);
+}
+
+/**
+ * The cartesian product of `iters`, as tuples taking one item from each in
+ * which the last source varies fastest. Reads every source once, when called.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { cartesianProduct } from "@blazes/iter";
+ *
+ * const cells = cartesianProduct("ab", [1, 2]);
+ * assertEquals([...cells], [["a", 1], ["a", 2], ["b", 1], ["b", 2]]);
+ * assertEquals(cells.at(-1).unwrap(), ["b", 2]);
+ * ```
+ */
+export function cartesianProduct<T extends Array<unknown>>(
+  ...iters: Iterables<T>
+): CombinatoricIter<T>;
+export function cartesianProduct(
+  ...iters: Array<Iterable<unknown>>
+): CombinatoricIter<Array<unknown>> {
+  return productOfPools(iters.map((items) => [...items]));
+}
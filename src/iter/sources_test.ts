@@ -0,0 +1,14 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { repeatN } from "./sources.ts";
+
+Deno.test("repeatN rounds the count toward zero", () => {
+  assertEquals([...repeatN("a", 2.7)], ["a", "a"]);
+  assertEquals(repeatN("a", 2.7).len(), 2);
+  assertEquals([...repeatN("a", 0)], []);
+  assertEquals(repeatN("a", -0.5).len(), 0);
+});
+
+Deno.test("repeatN rejects a negative or NaN count", () => {
+  assertThrows(() => repeatN("a", NaN), RangeError);
+  assertThrows(() => repeatN("a", -1), RangeError);
+});
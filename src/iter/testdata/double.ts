@@ -0,0 +1,9 @@
+// 🔹 The task `parallel_test.ts` runs in workers: doubles an item after a
+// short wait that differs between items, so chunks finish out of order, and
+// fails on a negative item
+
+export default async function double(x: number): Promise<number> {
+  if (x < 0) throw new Error(`Negative item ${x}`);
+  await new Promise((resolve) => setTimeout(resolve, (x * 7) % 5));
+  return x * 2;
+}
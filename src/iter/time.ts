@@ -0,0 +1,327 @@
+import { none, type Option, Some } from "../option.ts";
+import type { AsyncGenFn } from "../types.ts";
+
+/**
+ * Where the time-based operators read the time and set their timers. Pass a
+ * `VirtualClock` to run them without real waiting.
+ */
+export interface Clock {
+  /** The current time in milliseconds, from an arbitrary origin. */
+  now(): number;
+  /** Calls `fn` once `ms` milliseconds have passed. Returns a cancel function. */
+  schedule(fn: () => void, ms: number): () => void;
+}
+
+/** The clock of the runtime, backed by `setTimeout`. */
+export const realClock: Clock = {
+  now: () => performance.now(),
+  schedule: (fn, ms) => {
+    const id = setTimeout(fn, ms);
+    return () => clearTimeout(id);
+  },
+};
+
+type Timer = { at: number; fn: () => void };
+
+/**
+ * A clock that only moves when told to, for deterministic tests of the
+ * time-based operators.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { interval } from "@blazes/iter/async";
+ *
+ * const clock = new VirtualClock();
+ * const seen: Array<number> = [];
+ * const done = interval(1000, clock).take(3).forEach((x) => {
+ *   seen.push(x);
+ * });
+ * await clock.advance(2000);
+ * assertEquals(seen, [0, 1]);
+ * await clock.advance(1000);
+ * await done;
+ * assertEquals(seen, [0, 1, 2]);
+ * ```
+ */
+export class VirtualClock implements Clock {
+  private _now = 0;
+  // 🔹 Kept in firing order; timers due at the same time fire as scheduled
+  private _timers: Array<Timer> = [];
+
+  now(): number {
+    return this._now;
+  }
+
+  schedule(fn: () => void, ms: number): () => void {
+    const timer = { at: this._now + Math.max(0, ms), fn };
+    let i = this._timers.length;
+    while (i > 0 && this._timers[i - 1].at > timer.at) i--;
+    this._timers.splice(i, 0, timer);
+    return () => {
+      const index = this._timers.indexOf(timer);
+      if (index !== -1) this._timers.splice(index, 1);
+    };
+  }
+
+  /** The number of timers that have not fired or been cancelled yet. */
+  get pending(): number {
+    return this._timers.length;
+  }
+
+  /**
+   * Moves the time forward by `ms`, firing the timers that come due in order.
+   * Pending promise callbacks run before every timer and at the end, so code
+   * waiting on the timers catches up before `advance` resolves.
+   */
+  async advance(ms: number): Promise<void> {
+    const end = this._now + ms;
+    await settle();
+    while (this._timers.length > 0 && this._timers[0].at <= end) {
+      const timer = this._timers.shift()!;
+      this._now = timer.at;
+      timer.fn();
+      await settle();
+    }
+    this._now = end;
+    await settle();
+  }
+}
+
+// 🔹 A macrotask only runs once every queued promise callback has run
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+export function sleep(ms: number, clock: Clock): Promise<void> {
+  return new Promise((resolve) => clock.schedule(resolve, ms));
+}
+
+/**
+ * Checks a wait of `ms` before it is scheduled.
+ *
+ * @throws {RangeError} When `ms` is negative or `NaN`.
+ */
+export function assertDelay(ms: number) {
+  if (!(ms >= 0)) throw new RangeError(`Delay must be 0 or more, got ${ms}`);
+}
+
+/**
+ * Checks a period of `ms`, which must move the next tick forward.
+ *
+ * @throws {RangeError} When `ms` is not more than 0, or is `NaN`.
+ */
+export function assertPeriod(ms: number) {
+  if (!(ms > 0)) throw new RangeError(`Period must be more than 0, got ${ms}`);
+}
+
+const TIMEOUT = Symbol("timeout");
+
+/**
+ * Pulls items from a source while racing them against timers. A `next()` call
+ * stays in flight across waits that time out, so a slow source is never asked
+ * for two items at once.
+ */
+class Puller<T> {
+  private _source: AsyncGenerator<T>;
+  private _next: Promise<IteratorResult<T>> | undefined;
+
+  constructor(source: AsyncGenerator<T>) {
+    this._source = source;
+  }
+
+  /** The next result, or `TIMEOUT` if `ms` pass first. */
+  async pull(
+    ms: number,
+    clock: Clock,
+  ): Promise<IteratorResult<T> | typeof TIMEOUT> {
+    this._next ??= this._source.next();
+    if (ms === Infinity) {
+      const result = await this._next;
+      this._next = undefined;
+      return result;
+    }
+    let cancel = () => {};
+    const timer = new Promise<typeof TIMEOUT>((resolve) => {
+      cancel = clock.schedule(() => resolve(TIMEOUT), Math.max(0, ms));
+    });
+    try {
+      const result = await Promise.race([this._next, timer]);
+      if (result !== TIMEOUT) this._next = undefined;
+      return result;
+    } finally {
+      cancel();
+    }
+  }
+
+  /** Closes the source, without waiting for an item still being pulled. */
+  async close(): Promise<void> {
+    if (this._next === undefined) {
+      await this._source.return(undefined);
+      return;
+    }
+    this._next.catch(() => {});
+    this._source.return(undefined).catch(() => {});
+  }
+}
+
+/** Yields an item, then drops the ones that follow it within `ms`. */
+export function throttle<T>(
+  ms: number,
+  clock: Clock,
+): (gen: AsyncGenFn<T>) => AsyncGenFn<T> {
+  assertDelay(ms);
+  return (gen) =>
+    async function* () {
+      let last = -Infinity;
+      for await (const item of gen()) {
+        const now = clock.now();
+        if (now - last < ms) continue;
+        last = now;
+        yield item;
+      }
+    };
+}
+
+/**
+ * Yields an item once `ms` pass without a newer one, dropping the ones that
+ * are replaced sooner. The last item is yielded when the source ends.
+ */
+export function debounce<T>(
+  ms: number,
+  clock: Clock,
+): (gen: AsyncGenFn<T>) => AsyncGenFn<T> {
+  assertDelay(ms);
+  return (gen) =>
+    async function* () {
+      const source = new Puller(gen());
+      let latest: Option<T> = none;
+      let due = Infinity;
+      try {
+        while (true) {
+          const result = await source.pull(due - clock.now(), clock);
+          if (result === TIMEOUT) {
+            const item = latest.unwrap();
+            latest = none;
+            due = Infinity;
+            yield item;
+            continue;
+          }
+          if (result.done) break;
+          latest = new Some(result.value);
+          due = clock.now() + ms;
+        }
+        if (latest.isSome()) yield latest.value;
+      } finally {
+        await source.close();
+      }
+    };
+}
+
+/**
+ * Fails once the source takes longer than `ms` to produce an item, counting
+ * from the start of the pass and then from every item.
+ *
+ * @throws {Error} When no item arrives within `ms`.
+ */
+export function timeout<T>(
+  ms: number,
+  clock: Clock,
+): (gen: AsyncGenFn<T>) => AsyncGenFn<T> {
+  assertDelay(ms);
+  return (gen) =>
+    async function* () {
+      const source = new Puller(gen());
+      try {
+        while (true) {
+          const result = await source.pull(ms, clock);
+          if (result === TIMEOUT) throw new Error(`No item within ${ms}ms`);
+          if (result.done) return;
+          yield result.value;
+        }
+      } finally {
+        await source.close();
+      }
+    };
+}
+
+/** Every `ms`, yields the latest item if a new one arrived since the last. */
+export function sample<T>(
+  ms: number,
+  clock: Clock,
+): (gen: AsyncGenFn<T>) => AsyncGenFn<T> {
+  assertPeriod(ms);
+  return (gen) =>
+    async function* () {
+      const source = new Puller(gen());
+      let latest: Option<T> = none;
+      let tick = clock.now() + ms;
+      try {
+        while (true) {
+          const result = await source.pull(tick - clock.now(), clock);
+          if (result === TIMEOUT) {
+            while (tick <= clock.now()) tick += ms;
+            if (latest.isNone()) continue;
+            const item = latest.value;
+            latest = none;
+            yield item;
+            continue;
+          }
+          if (result.done) return;
+          latest = new Some(result.value);
+        }
+      } finally {
+        await source.close();
+      }
+    };
+}
+
+/**
+ * Every `ms`, yields the items that arrived since the last batch, skipping
+ * empty batches. The rest is yielded when the source ends.
+ */
+export function bufferTime<T>(
+  ms: number,
+  clock: Clock,
+): (gen: AsyncGenFn<T>) => AsyncGenFn<Array<T>> {
+  assertPeriod(ms);
+  return (gen) =>
+    async function* () {
+      const source = new Puller(gen());
+      let batch: Array<T> = [];
+      let tick = clock.now() + ms;
+      try {
+        while (true) {
+          const result = await source.pull(tick - clock.now(), clock);
+          if (result === TIMEOUT) {
+            while (tick <= clock.now()) tick += ms;
+            if (batch.length === 0) continue;
+            const items = batch;
+            batch = [];
+            yield items;
+            continue;
+          }
+          if (result.done) break;
+          batch.push(result.value);
+        }
+        if (batch.length > 0) yield batch;
+      } finally {
+        await source.close();
+      }
+    };
+}
+
+/** Waits `ms` after each item arrives before yielding it. */
+export function delay<T>(
+  ms: number,
+  clock: Clock,
+): (gen: AsyncGenFn<T>) => AsyncGenFn<T> {
+  assertDelay(ms);
+  return (gen) =>
+    async function* () {
+      for await (const item of gen()) {
+        await sleep(ms, clock);
+        yield item;
+      }
+    };
+}
@@ -0,0 +1,177 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { AsyncIter } from "./async_iter.ts";
+import { interval, timer } from "./async_sources.ts";
+import { sleep, VirtualClock } from "./time.ts";
+
+/** Yields each value at its time on `clock`, then ends at `end`. */
+function scripted<T>(
+  clock: VirtualClock,
+  events: Array<[number, T]>,
+  end = events.at(-1)?.[0] ?? 0,
+): AsyncIter<T> {
+  return new AsyncIter(async function* () {
+    for (const [at, value] of events) {
+      await sleep(at - clock.now(), clock);
+      yield value;
+    }
+    await sleep(end - clock.now(), clock);
+  });
+}
+
+/** Consumes `it`, noting the time on `clock` at which each item arrives. */
+function record<T>(
+  it: AsyncIter<T>,
+  clock: VirtualClock,
+): Promise<Array<[number, T]>> {
+  const seen: Array<[number, T]> = [];
+  return it.forEach((item) => {
+    seen.push([clock.now(), item]);
+  }).then(() => seen);
+}
+
+Deno.test("interval ticks every ms from the start of the pass", async () => {
+  const clock = new VirtualClock();
+  const ticks = record(interval(100, clock).take(3), clock);
+  await clock.advance(1000);
+  assertEquals(await ticks, [[100, 0], [200, 1], [300, 2]]);
+  assertEquals(clock.pending, 0);
+});
+
+Deno.test("timer yields once after ms", async () => {
+  const clock = new VirtualClock();
+  const ticks = record(timer(250, clock), clock);
+  await clock.advance(1000);
+  assertEquals(await ticks, [[250, 0]]);
+});
+
+Deno.test("throttle drops the items within ms of the last one kept", async () => {
+  const clock = new VirtualClock();
+  const source = scripted(clock, [
+    [0, "a"],
+    [50, "b"],
+    [100, "c"],
+    [150, "d"],
+    [260, "e"],
+  ]);
+  const items = record(source.throttle(100, clock), clock);
+  await clock.advance(1000);
+  assertEquals(await items, [[0, "a"], [100, "c"], [260, "e"]]);
+});
+
+Deno.test("debounce yields an item once ms pass without a newer one", async () => {
+  const clock = new VirtualClock();
+  const source = scripted(clock, [
+    [0, "a"],
+    [50, "b"],
+    [300, "c"],
+    [350, "d"],
+  ], 500);
+  const items = record(source.debounce(100, clock), clock);
+  await clock.advance(1000);
+  assertEquals(await items, [[150, "b"], [450, "d"]]);
+  assertEquals(clock.pending, 0);
+});
+
+Deno.test("debounce yields the last item when the source ends", async () => {
+  const clock = new VirtualClock();
+  const source = scripted(clock, [[0, "a"], [50, "b"]], 80);
+  const items = record(source.debounce(100, clock), clock);
+  await clock.advance(1000);
+  assertEquals(await items, [[80, "b"]]);
+  assertEquals(clock.pending, 0);
+});
+
+Deno.test("timeout fails once an item takes longer than ms", async () => {
+  const clock = new VirtualClock();
+  const source = scripted(clock, [[50, "a"], [120, "b"], [300, "c"]]);
+  const seen: Array<[number, string]> = [];
+  let failedAt = -1;
+  const done = assertRejects(
+    () =>
+      source.timeout(100, clock).forEach((item) => {
+        seen.push([clock.now(), item]);
+      }).finally(() => failedAt = clock.now()),
+    Error,
+    "No item within 100ms",
+  );
+  await clock.advance(1000);
+  await done;
+  assertEquals(seen, [[50, "a"], [120, "b"]]);
+  assertEquals(failedAt, 220);
+});
+
+Deno.test("timeout passes a source that keeps up", async () => {
+  const clock = new VirtualClock();
+  const source = scripted(clock, [[90, 1], [180, 2], [270, 3]]);
+  const items = record(source.timeout(100, clock), clock);
+  await clock.advance(1000);
+  assertEquals(await items, [[90, 1], [180, 2], [270, 3]]);
+  assertEquals(clock.pending, 0);
+});
+
+Deno.test("sample yields the latest new item every ms", async () => {
+  const clock = new VirtualClock();
+  const source = scripted(clock, [[30, "a"], [60, "b"], [250, "c"]], 420);
+  const items = record(source.sample(100, clock), clock);
+  await clock.advance(1000);
+  assertEquals(await items, [[100, "b"], [300, "c"]]);
+  assertEquals(clock.pending, 0);
+});
+
+Deno.test("bufferTime batches the items of every ms", async () => {
+  const clock = new VirtualClock();
+  const source = scripted(clock, [
+    [30, "a"],
+    [60, "b"],
+    [250, "c"],
+    [420, "d"],
+  ], 430);
+  const batches = record(source.bufferTime(100, clock), clock);
+  await clock.advance(1000);
+  assertEquals(await batches, [
+    [100, ["a", "b"]],
+    [300, ["c"]],
+    [430, ["d"]],
+  ]);
+  assertEquals(clock.pending, 0);
+});
+
+Deno.test("delay waits ms after each item arrives", async () => {
+  const clock = new VirtualClock();
+  const source = scripted(clock, [[0, "a"], [100, "b"]]);
+  const items = record(source.delay(50, clock), clock);
+  await clock.advance(1000);
+  assertEquals(await items, [[50, "a"], [150, "b"]]);
+});
+
+Deno.test("timing operators reject a negative or NaN ms up front", () => {
+  const clock = new VirtualClock();
+  const source = scripted(clock, [[0, "a"]]);
+  for (const ms of [-1, NaN]) {
+    assertThrows(() => source.throttle(ms, clock), RangeError);
+    assertThrows(() => source.debounce(ms, clock), RangeError);
+    assertThrows(() => source.timeout(ms, clock), RangeError);
+    assertThrows(() => source.delay(ms, clock), RangeError);
+    assertThrows(() => timer(ms, clock), RangeError);
+  }
+  assertEquals(clock.pending, 0);
+});
+
+Deno.test("periodic operators and interval reject a period of 0 or less", () => {
+  const clock = new VirtualClock();
+  const source = scripted(clock, [[0, "a"]]);
+  for (const ms of [0, -1, NaN]) {
+    assertThrows(() => source.sample(ms, clock), RangeError);
+    assertThrows(() => source.bufferTime(ms, clock), RangeError);
+    assertThrows(() => interval(ms, clock), RangeError);
+  }
+  assertEquals(clock.pending, 0);
+});
+
+Deno.test("throttle, debounce and delay accept a ms of 0", async () => {
+  const clock = new VirtualClock();
+  const source = scripted(clock, [[0, "a"], [0, "b"], [10, "c"]]);
+  const items = record(source.throttle(0, clock).delay(0, clock), clock);
+  await clock.advance(100);
+  assertEquals(await items, [[0, "a"], [0, "b"], [10, "c"]]);
+});
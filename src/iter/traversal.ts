@@ -0,0 +1,241 @@
+import { Iter } from "./iter.ts";
+
+export type TraversalOptions<T> = {
+  /** Nodes deeper than this are not visited. The start node has depth 0. */
+  maxDepth?: number;
+  /**
+   * Nodes that were visited already and are skipped. Graph traversals use a
+   * new set for every pass by default; a set passed here is shared by every
+   * pass and may be filled in advance.
+   */
+  visited?: Set<T>;
+};
+
+export type DfsOptions<T> = TraversalOptions<T> & {
+  /** Yield every node before its descendants (the default) or after them. */
+  order?: "pre" | "post";
+};
+
+/**
+ * The nodes reachable from `start`, nearest first. `neighbors` is called
+ * once per node, only when the walk moves past it.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * const graph: Record<string, Array<string>> = {
+ *   a: ["b", "c"],
+ *   b: ["d"],
+ *   c: ["d", "a"],
+ *   d: [],
+ * };
+ * assertEquals([...bfs("a", (node) => graph[node])], ["a", "b", "c", "d"]);
+ * assertEquals([...bfs("a", (node) => graph[node], { maxDepth: 1 })], [
+ *   "a",
+ *   "b",
+ *   "c",
+ * ]);
+ * ```
+ */
+export function bfs<T>(
+  start: T,
+  neighbors: (node: T) => Iterable<T>,
+  options: TraversalOptions<T> = {},
+): Iter<T> {
+  const { maxDepth = Infinity } = options;
+  return new Iter(function* () {
+    const visited = options.visited ?? new Set<T>();
+    if (visited.has(start)) return;
+    visited.add(start);
+    let level = [start];
+    for (let depth = 0; level.length > 0; depth++) {
+      const next: Array<T> = [];
+      for (const node of level) {
+        yield node;
+        if (depth >= maxDepth) continue;
+        for (const neighbor of neighbors(node)) {
+          if (visited.has(neighbor)) continue;
+          visited.add(neighbor);
+          next.push(neighbor);
+        }
+      }
+      level = next;
+    }
+  });
+}
+
+/**
+ * The nodes reachable from `start`, following each path as deep as it goes
+ * before the next one, in pre-order or post-order.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * const graph: Record<string, Array<string>> = {
+ *   a: ["b", "c"],
+ *   b: ["d"],
+ *   c: ["d"],
+ *   d: [],
+ * };
+ * const next = (node: string) => graph[node];
+ * assertEquals([...dfs("a", next)], ["a", "b", "d", "c"]);
+ * assertEquals([...dfs("a", next, { order: "post" })], ["d", "b", "c", "a"]);
+ * ```
+ */
+export function dfs<T>(
+  start: T,
+  neighbors: (node: T) => Iterable<T>,
+  options: DfsOptions<T> = {},
+): Iter<T> {
+  const { order = "pre", maxDepth = Infinity } = options;
+  return new Iter(function* () {
+    const visited = options.visited ?? new Set<T>();
+    for (const [node] of walk(start, neighbors, order, maxDepth, visited)) {
+      yield node;
+    }
+  });
+}
+
+/**
+ * Every node of the tree under `root` with its depth, parents before their
+ * children. Trees have no cycles, so nodes are only tracked when a `visited`
+ * set is passed.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * type Node = { name: string; children: Array<Node> };
+ * const leaf = (name: string): Node => ({ name, children: [] });
+ * const root = { name: "/", children: [{ name: "src", children: [leaf("a")] }] };
+ * const lines = walkTree(root, (node) => node.children)
+ *   .map(([node, depth]) => "  ".repeat(depth) + node.name);
+ * assertEquals([...lines], ["/", "  src", "    a"]);
+ * ```
+ */
+export function walkTree<T>(
+  root: T,
+  children: (node: T) => Iterable<T>,
+  options: TraversalOptions<T> = {},
+): Iter<[T, number]> {
+  const { maxDepth = Infinity, visited } = options;
+  return new Iter(() => walk(root, children, "pre", maxDepth, visited));
+}
+
+// 🔹 Walks depth-first on an explicit stack, so deep graphs cannot overflow
+// the call stack, and closes the neighbor iterators it leaves unfinished
+function* walk<T>(
+  start: T,
+  neighbors: (node: T) => Iterable<T>,
+  order: "pre" | "post",
+  maxDepth: number,
+  visited: Set<T> | undefined,
+): Generator<[T, number]> {
+  if (visited?.has(start)) return;
+  visited?.add(start);
+  const expand = (node: T, depth: number): Iterator<T> =>
+    depth < maxDepth
+      ? neighbors(node)[Symbol.iterator]()
+      : [][Symbol.iterator]();
+  const stack: Array<[T, Iterator<T>]> = [];
+  try {
+    if (order === "pre") yield [start, 0];
+    stack.push([start, expand(start, 0)]);
+    while (stack.length > 0) {
+      const [node, rest] = stack[stack.length - 1];
+      const next = rest.next();
+      if (next.done) {
+        stack.pop();
+        if (order === "post") yield [node, stack.length];
+        continue;
+      }
+      const child = next.value;
+      if (visited?.has(child)) continue;
+      visited?.add(child);
+      const depth = stack.length;
+      if (order === "pre") yield [child, depth];
+      stack.push([child, expand(child, depth)]);
+    }
+  } finally {
+    for (const [, rest] of stack) rest.return?.();
+  }
+}
+
+/**
+ * Orders the graph so that every node comes before the nodes `edges` lists
+ * for it. Nodes reached through `edges` are included even when missing from
+ * `nodes`, and ties keep the order in which nodes were found.
+ *
+ * The graph is read when a pass starts; nodes are then yielded as they are
+ * freed, so the part before a cycle is yielded before the error.
+ *
+ * @throws {Error} When the graph has a cycle, with its nodes as the `cause`.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals, assertThrows } from "@std/assert";
+ * const deps: Record<string, Array<string>> = {
+ *   std: ["app", "cli"],
+ *   cli: ["app"],
+ *   app: [],
+ * };
+ * assertEquals([...topoSort(["app", "std"], (node) => deps[node])], [
+ *   "std",
+ *   "cli",
+ *   "app",
+ * ]);
+ * assertThrows(() => [...topoSort(["a"], () => ["a"])], Error, "a -> a");
+ * ```
+ */
+export function topoSort<T>(
+  nodes: Iterable<T>,
+  edges: (node: T) => Iterable<T>,
+): Iter<T> {
+  return new Iter(function* () {
+    // 🔹 Kahn's algorithm: count the edges into every node, then repeatedly
+    // yield a node with none left and remove its edges
+    const successors = new Map<T, Array<T>>();
+    const predecessors = new Map<T, Array<T>>();
+    const incoming = new Map<T, number>();
+    const found = [...nodes];
+    for (let i = 0; i < found.length; i++) {
+      const node = found[i];
+      if (successors.has(node)) continue;
+      const next = [...edges(node)];
+      successors.set(node, next);
+      if (!incoming.has(node)) incoming.set(node, 0);
+      for (const successor of next) {
+        incoming.set(successor, (incoming.get(successor) ?? 0) + 1);
+        const before = predecessors.get(successor);
+        if (before) before.push(node);
+        else predecessors.set(successor, [node]);
+        found.push(successor);
+      }
+    }
+
+    const ready = [...successors.keys()].filter((n) => incoming.get(n) === 0);
+    for (let i = 0; i < ready.length; i++) {
+      yield ready[i];
+      for (const successor of successors.get(ready[i])!) {
+        const left = incoming.get(successor)! - 1;
+        incoming.set(successor, left);
+        if (left === 0) ready.push(successor);
+      }
+    }
+    if (ready.length === successors.size) return;
+
+    // 🔹 Every node left has an edge from another node left, so walking those
+    // edges backwards must come around to a node seen before
+    const isLeft = (node: T) => incoming.get(node)! > 0;
+    const path: Array<T> = [];
+    const seen = new Map<T, number>();
+    let node = [...incoming.keys()].find(isLeft)!;
+    while (!seen.has(node)) {
+      seen.set(node, path.length);
+      path.push(node);
+      node = predecessors.get(node)!.find(isLeft)!;
+    }
+    const cycle = path.slice(seen.get(node)).reverse();
+    const names = [...cycle, cycle[0]].map(String).join(" -> ");
+    throw new Error(`Graph has a cycle: ${names}`, { cause: cycle });
+  });
+}
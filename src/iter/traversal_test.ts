@@ -0,0 +1,125 @@
+import { assertEquals } from "@std/assert";
+import { bfs, dfs, walkTree } from "./traversal.ts";
+
+// 🔹 A graph with cycles (a -> b -> a, b -> d -> b) and a node reached twice
+const graph: Record<string, Array<string>> = {
+  a: ["b", "c"],
+  b: ["d", "a"],
+  c: ["d", "e"],
+  d: ["b"],
+  e: [],
+};
+const next = (node: string) => graph[node];
+
+/** An endless binary tree, numbered breadth-first from 1. */
+const children = (n: number) => [2 * n, 2 * n + 1];
+
+Deno.test("bfs visits nodes level by level, each once", () => {
+  assertEquals([...bfs("a", next)], ["a", "b", "c", "d", "e"]);
+  assertEquals([...bfs("d", next)], ["d", "b", "a", "c", "e"]);
+  assertEquals([...bfs("a", next, { maxDepth: 0 })], ["a"]);
+  assertEquals([...bfs("a", next, { maxDepth: 1 })], ["a", "b", "c"]);
+});
+
+Deno.test("dfs visits nodes path by path, each once", () => {
+  assertEquals([...dfs("a", next)], ["a", "b", "d", "c", "e"]);
+  assertEquals([...dfs("a", next, { order: "post" })], [
+    "d",
+    "b",
+    "e",
+    "c",
+    "a",
+  ]);
+  assertEquals([...dfs("a", next, { maxDepth: 1 })], ["a", "b", "c"]);
+  assertEquals([...dfs("a", next, { maxDepth: 1, order: "post" })], [
+    "b",
+    "c",
+    "a",
+  ]);
+});
+
+Deno.test("traversals start a new visited set every pass", () => {
+  for (const it of [bfs("a", next), dfs("a", next)]) {
+    const first = [...it];
+    assertEquals(first.length, 5);
+    assertEquals([...it], first);
+  }
+});
+
+Deno.test("a visited set is shared by every pass and skips its nodes", () => {
+  const visited = new Set(["c"]);
+  const it = bfs("a", next, { visited });
+  assertEquals([...it], ["a", "b", "d"]);
+  assertEquals([...it], []);
+  assertEquals([...dfs("a", next, { visited: new Set(["d"]) })], [
+    "a",
+    "b",
+    "c",
+    "e",
+  ]);
+  assertEquals([...dfs("a", next, { visited: new Set(["a"]) })], []);
+});
+
+Deno.test("walkTree revisits shared children unless given a visited set", () => {
+  const dag: Record<string, Array<string>> = {
+    r: ["x", "y"],
+    x: ["z"],
+    y: ["z"],
+    z: [],
+  };
+  const down = (node: string) => dag[node];
+  assertEquals([...walkTree("r", down)], [
+    ["r", 0],
+    ["x", 1],
+    ["z", 2],
+    ["y", 1],
+    ["z", 2],
+  ]);
+  assertEquals([...walkTree("r", down, { visited: new Set() })], [
+    ["r", 0],
+    ["x", 1],
+    ["z", 2],
+    ["y", 1],
+  ]);
+  assertEquals([...walkTree("r", down, { maxDepth: 1 })], [
+    ["r", 0],
+    ["x", 1],
+    ["y", 1],
+  ]);
+});
+
+Deno.test("traversals of endless graphs stop when the consumer does", () => {
+  assertEquals([...bfs(1, children).take(7)], [1, 2, 3, 4, 5, 6, 7]);
+  assertEquals([...dfs(1, children).take(4)], [1, 2, 4, 8]);
+  assertEquals([...walkTree(1, children).take(3)], [[1, 0], [2, 1], [4, 2]]);
+});
+
+Deno.test("bfs expands a node only when the walk moves past it", () => {
+  const expanded: Array<number> = [];
+  const it = bfs(1, (n) => {
+    expanded.push(n);
+    return children(n);
+  });
+  assertEquals([...it.take(3)], [1, 2, 3]);
+  assertEquals(expanded, [1, 2]);
+});
+
+Deno.test("dfs closes the neighbor iterators it leaves on break", () => {
+  const open = new Set<number>();
+  const neighbors = function* (n: number) {
+    open.add(n);
+    try {
+      yield* children(n);
+    } finally {
+      open.delete(n);
+    }
+  };
+  for (const order of ["pre", "post"] as const) {
+    let seen = 0;
+    for (const _ of dfs(1, neighbors, { order, maxDepth: 10 })) {
+      if (++seen === 5) break;
+    }
+    assertEquals(seen, 5);
+    assertEquals(open.size, 0, `iterators left open in ${order}-order`);
+  }
+});
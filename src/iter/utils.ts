@@ -1,4 +1,7 @@
-import type { GenFn, Option, Predicate } from "../types.ts";
+import { err, none, ok, type Option, type Result, Some } from "../option.ts";
+import type { Comparator, GenFn, Predicate } from "../types.ts";
+import { drain, fuse, SKIP } from "./fuse.ts";
+import { Heap } from "./heap.ts";
 
 export function repeat<T>(item: T): GenFn<T> {
   return function* () {
@@ -7,134 +10,1032 @@ export function repeat<T>(item: T): GenFn<T> {
 }
 
 export function enumerate<T>(gen: GenFn<T>): GenFn<[number, T]> {
+  return fuse(gen, () => {
+    let i = 0;
+    return (item) => [i++, item];
+  });
+}
+
+/**
+ * Enumerates a reversed sequence of `len` items with the indices they have
+ * going forwards, counting down from `len - 1`.
+ */
+export function enumerateBack<T>(
+  len: number,
+): (gen: GenFn<T>) => GenFn<[number, T]> {
+  return (gen) =>
+    fuse(gen, () => {
+      let i = len;
+      return (item) => [--i, item];
+    });
+}
+
+export function map<T, U>(
+  fn: (item: T, index: number) => U,
+): (gen: GenFn<T>) => GenFn<U> {
+  return (gen) =>
+    fuse(gen, () => {
+      let i = 0;
+      return (item) => fn(item, i++);
+    });
+}
+
+/**
+ * Maps a reversed sequence of `len` items, passing `fn` the indices they have
+ * going forwards, like `enumerateBack`.
+ */
+export function mapBack<T, U>(
+  len: number,
+  fn: (item: T, index: number) => U,
+): (gen: GenFn<T>) => GenFn<U> {
+  return (gen) =>
+    fuse(gen, () => {
+      let i = len;
+      return (item) => fn(item, --i);
+    });
+}
+
+export function filter<T>(
+  fn: (item: T, index: number) => boolean,
+): (gen: GenFn<T>) => GenFn<T> {
+  return (gen) =>
+    fuse(gen, () => {
+      let i = 0;
+      return (item) => fn(item, i++) ? item : SKIP;
+    });
+}
+
+export function filterMap<T, U>(
+  fn: (item: T) => Option<U>,
+): (gen: GenFn<T>) => GenFn<U> {
+  return (gen) =>
+    fuse(gen, () => (item) => {
+      const out = fn(item);
+      return out.isSome() ? out.value : SKIP;
+    });
+}
+
+/** Like `map`, catching what `fn` throws as an `Err` instead of stopping. */
+export function tryMap<T, U, E = unknown>(
+  fn: (item: T) => U,
+): (gen: GenFn<T>) => GenFn<Result<U, E>> {
+  return (gen) =>
+    fuse(gen, () => (item) => {
+      try {
+        return ok(fn(item));
+      } catch (error) {
+        return err(error as E);
+      }
+    });
+}
+
+export function take<T>(n: number): (gen: GenFn<T>) => GenFn<T> {
+  const count = toCount(n);
+  return (gen) =>
+    fuse(gen, (run) => {
+      let left = count;
+      if (left <= 0) run.done = true;
+      return (item) => {
+        if (--left <= 0) run.done = true; // 🔹 Stop before pulling another item
+        return item;
+      };
+    });
+}
+
+/**
+ * Ends the pass once `signal` aborts. A synchronous pass can only notice it
+ * between items, so an item pulled after the abort is dropped.
+ */
+export function takeUntilAborted<T>(
+  signal: AbortSignal,
+): (gen: GenFn<T>) => GenFn<T> {
+  return (gen) =>
+    fuse(gen, (run) => {
+      if (signal.aborted) run.done = true;
+      return (item) => {
+        if (!signal.aborted) return item;
+        run.done = true;
+        return SKIP;
+      };
+    });
+}
+
+/**
+ * Throws `signal.reason` from the pass once `signal` aborts, which closes the
+ * source like any other error. Without a signal, `gen` is returned as-is.
+ */
+export function abortable<T>(
+  signal: AbortSignal | undefined,
+): (gen: GenFn<T>) => GenFn<T> {
+  if (signal === undefined) return (gen) => gen;
+  return (gen) =>
+    fuse(gen, () => {
+      signal.throwIfAborted();
+      return (item) => {
+        signal.throwIfAborted();
+        return item;
+      };
+    });
+}
+
+export function takeWhile<T>(fn: Predicate<T>): (gen: GenFn<T>) => GenFn<T> {
+  return (gen) =>
+    fuse(gen, (run) => (item) => {
+      if (fn(item)) return item;
+      run.done = true;
+      return SKIP;
+    });
+}
+
+export function skip<T>(n: number): (gen: GenFn<T>) => GenFn<T> {
+  const count = toCount(n);
+  return (gen) =>
+    fuse(gen, () => {
+      let left = count;
+      return (item) => {
+        if (left <= 0) return item;
+        left--;
+        return SKIP;
+      };
+    });
+}
+
+export function skipWhile<T>(fn: Predicate<T>): (gen: GenFn<T>) => GenFn<T> {
+  return (gen) =>
+    fuse(gen, () => {
+      let skipping = true;
+      return (item) => {
+        if (skipping && fn(item)) return SKIP;
+        skipping = false;
+        return item;
+      };
+    });
+}
+
+export function fold<T, U>(
+  init: U,
+  fn: (acc: U, item: T, index: number) => U,
+): (gen: GenFn<T>) => U {
+  return (gen) => {
+    let acc = init;
+    let i = 0;
+    drain(gen, (item) => {
+      acc = fn(acc, item, i++);
+      return false;
+    });
+    return acc;
+  };
+}
+
+export function reduce<T>(
+  fn: (acc: T, item: T, index: number) => T,
+): (gen: GenFn<T>) => Option<T> {
+  return (gen) => {
+    let i = 0;
+    let acc!: T;
+    drain(gen, (item) => {
+      // 🔹 Start with the first element, only apply `fn` to the rest
+      acc = i === 0 ? item : fn(acc, item, i);
+      i++;
+      return false;
+    });
+    return i === 0 ? none : new Some(acc); // 🔹 If empty, return `none`
+  };
+}
+
+/** Gathers the values of `Ok`s, stopping at the first `Err`. */
+export function collectResult<T, E>(): (
+  gen: GenFn<Result<T, E>>,
+) => Result<Array<T>, E> {
+  return (gen) => {
+    const items: Array<T> = [];
+    let failed: Result<Array<T>, E> | undefined;
+    drain(gen, (result) => {
+      if (result.isOk()) {
+        items.push(result.value);
+        return false;
+      }
+      failed = err(result.unwrapErr());
+      return true;
+    });
+    return failed ?? ok(items);
+  };
+}
+
+export function count<T>(): (gen: GenFn<T>) => number {
+  return (gen) => fold(0, (acc) => acc + 1)(gen);
+}
+
+export function cycle<T>(gen: GenFn<T>): GenFn<T> {
   return function* () {
+    while (true) {
+      let empty = true;
+      for (const item of gen()) {
+        empty = false;
+        yield item;
+      }
+      if (empty) return; // 🔹 Cycling nothing would otherwise spin forever
+    }
+  };
+}
+
+export function any<T>(
+  fn: (item: T, index: number) => boolean,
+): (gen: GenFn<T>) => boolean {
+  return (gen) => {
+    let found = false;
+    let i = 0;
+    drain(gen, (item) => (found = fn(item, i++)));
+    return found;
+  };
+}
+
+export function all<T>(
+  fn: (item: T, index: number) => boolean,
+): (gen: GenFn<T>) => boolean {
+  return (gen) => !any<T>((item, i) => !fn(item, i))(gen);
+}
+
+export function find<T>(
+  fn: (item: T, index: number) => boolean,
+): (gen: GenFn<T>) => Option<T> {
+  return (gen) => {
+    let found: Option<T> = none;
+    let i = 0;
+    drain(gen, (item) => {
+      if (!fn(item, i++)) return false;
+      found = new Some(item);
+      return true;
+    });
+    return found;
+  };
+}
+
+export function nth<T>(n: number): (gen: GenFn<T>) => Option<T> {
+  return (gen) => {
+    if (!(n >= 0)) return none;
+    let i = 0;
+    let found: Option<T> = none;
+    drain(gen, (item) => {
+      if (i++ < n) return false;
+      found = new Some(item);
+      return true;
+    });
+    return found;
+  };
+}
+
+export function last<T>(): (gen: GenFn<T>) => Option<T> {
+  return (gen) => {
+    let found: Option<T> = none;
+    drain(gen, (item) => {
+      found = new Some(item);
+      return false;
+    });
+    return found;
+  };
+}
+
+export function position<T>(
+  fn: Predicate<T>,
+): (gen: GenFn<T>) => Option<number> {
+  return (gen) => {
+    let i = 0;
+    let found: Option<number> = none;
+    drain(gen, (item) => {
+      if (!fn(item)) {
+        i++;
+        return false;
+      }
+      found = new Some(i);
+      return true;
+    });
+    return found;
+  };
+}
+
+export function forEach<T>(
+  fn: (item: T, index: number) => void,
+): (gen: GenFn<T>) => void {
+  return (gen) => {
     let i = 0;
-    for (const item of gen()) yield [i++, item];
+    drain(gen, (item) => {
+      fn(item, i++);
+      return false;
+    });
   };
 }
 
-export function map<T, U>(fn: (item: T) => U): (gen: GenFn<T>) => GenFn<U> {
+export function zip<T, U>(other: GenFn<U>): (gen: GenFn<T>) => GenFn<[T, U]> {
+  return zipWith<T, U, [T, U]>(other, (a, b) => [a, b]);
+}
+
+export function zipWith<T, U, R>(
+  other: GenFn<U>,
+  fn: (a: T, b: U) => R,
+): (gen: GenFn<T>) => GenFn<R> {
   return (gen) =>
     function* () {
-      for (const item of gen()) yield fn(item);
+      const iterator = other();
+      try {
+        for (const a of gen()) {
+          const b = iterator.next();
+          if (b.done) break;
+          yield fn(a, b.value);
+        }
+      } finally {
+        iterator.return(undefined);
+      }
     };
 }
 
-export function filter<T>(
-  fn: (item: T) => boolean,
-): (gen: GenFn<T>) => GenFn<T> {
+export function unzip<T, U>(): (gen: GenFn<[T, U]>) => [Array<T>, Array<U>] {
+  return (gen) => {
+    const left: Array<T> = [];
+    const right: Array<U> = [];
+    forEach<[T, U]>(([a, b]) => {
+      left.push(a);
+      right.push(b);
+    })(gen);
+    return [left, right];
+  };
+}
+
+export function chain<T>(other: GenFn<T>): (gen: GenFn<T>) => GenFn<T> {
   return (gen) =>
     function* () {
-      for (const item of gen()) if (fn(item)) yield item;
+      yield* gen();
+      yield* other();
     };
 }
 
-export function take<T>(n: number): (gen: GenFn<T>) => GenFn<T> {
+export function interleave<T>(other: GenFn<T>): (gen: GenFn<T>) => GenFn<T> {
+  return (gen) =>
+    function* () {
+      const a = gen();
+      const b = other();
+      try {
+        while (true) {
+          const x = a.next();
+          if (x.done) return yield* b; // 🔹 Drain whatever is left of the other side
+          yield x.value;
+          const y = b.next();
+          if (y.done) return yield* a;
+          yield y.value;
+        }
+      } finally {
+        a.return(undefined);
+        b.return(undefined);
+      }
+    };
+}
+
+export function flatMap<T, U>(
+  fn: (item: T, index: number) => Iterable<U> | Iterator<U>,
+): (gen: GenFn<T>) => GenFn<U> {
   return (gen) =>
     function* () {
       let i = 0;
+      for (const item of gen()) yield* flattenable(fn(item, i++));
+    };
+}
+
+// 🔹 Like the native `flatMap`, flattens bare iterators as well as iterables,
+// and refuses strings rather than splitting them into characters
+function flattenable<U>(items: Iterable<U> | Iterator<U>): Iterable<U> {
+  if (Object(items) !== items) {
+    throw new TypeError(`flatMap callback returned ${typeof items}`);
+  }
+  return Symbol.iterator in items ? items : { [Symbol.iterator]: () => items };
+}
+
+export function flatten<T>(gen: GenFn<Iterable<T>>): GenFn<T> {
+  return function* () {
+    for (const item of gen()) yield* item;
+  };
+}
+
+export function windows<T>(n: number): (gen: GenFn<T>) => GenFn<Array<T>> {
+  assertSize(n, "Window size");
+  return (gen) =>
+    function* () {
+      const window: Array<T> = [];
       for (const item of gen()) {
-        if (i === n) break;
-        yield item;
-        i++;
+        window.push(item);
+        if (window.length > n) window.shift();
+        if (window.length === n) yield [...window];
       }
     };
 }
 
-export function takeWhile<T>(fn: Predicate<T>): (gen: GenFn<T>) => GenFn<T> {
+/**
+ * Windows over a reversed sequence: windows come last-first, but the items
+ * inside each window keep their forward order.
+ */
+export function windowsBack<T>(
+  n: number,
+): (gen: GenFn<T>) => GenFn<Array<T>> {
+  assertSize(n, "Window size");
   return (gen) =>
     function* () {
+      const window: Array<T> = [];
       for (const item of gen()) {
-        if (!fn(item)) break;
-        yield item;
+        window.unshift(item);
+        if (window.length > n) window.pop();
+        if (window.length === n) yield [...window];
       }
     };
 }
 
-export function skip<T>(n: number): (gen: GenFn<T>) => GenFn<T> {
+export function chunks<T>(n: number): (gen: GenFn<T>) => GenFn<Array<T>> {
+  assertSize(n, "Chunk size");
   return (gen) =>
     function* () {
-      let skip = n;
+      let chunk: Array<T> = [];
       for (const item of gen()) {
-        if (skip <= 0) yield item;
-        skip--;
+        chunk.push(item);
+        if (chunk.length === n) {
+          yield chunk;
+          chunk = [];
+        }
       }
+      if (chunk.length > 0) yield chunk;
     };
 }
 
-export function skipWhile<T>(fn: Predicate<T>): (gen: GenFn<T>) => GenFn<T> {
+export function chunksExact<T>(
+  n: number,
+): (gen: GenFn<T>) => GenFn<Array<T>> {
+  assertSize(n, "Chunk size");
   return (gen) =>
     function* () {
+      let chunk: Array<T> = [];
       for (const item of gen()) {
-        if (fn(item)) continue;
-        yield item;
+        chunk.push(item);
+        if (chunk.length === n) {
+          yield chunk;
+          chunk = [];
+        }
       }
     };
 }
 
-export function fold<T, U>(
+/**
+ * Chunks a reversed sequence of `len` items so the chunks match the forward
+ * ones: the short remainder chunk, if any, comes first.
+ */
+export function chunksBack<T>(
+  n: number,
+  len: number,
+): (gen: GenFn<T>) => GenFn<Array<T>> {
+  assertSize(n, "Chunk size");
+  return (gen) =>
+    function* () {
+      let size = len % n || n;
+      let chunk: Array<T> = [];
+      for (const item of gen()) {
+        chunk.unshift(item);
+        if (chunk.length === size) {
+          yield chunk;
+          chunk = [];
+          size = n;
+        }
+      }
+    };
+}
+
+export function chunkBy<T, K>(
+  fn: (item: T) => K,
+): (gen: GenFn<T>) => GenFn<Array<T>> {
+  return (gen) =>
+    function* () {
+      let chunk: Array<T> = [];
+      let key: K | undefined;
+      for (const item of gen()) {
+        const next = fn(item);
+        if (chunk.length > 0 && next !== key) {
+          yield chunk;
+          chunk = [];
+        }
+        key = next;
+        chunk.push(item);
+      }
+      if (chunk.length > 0) yield chunk;
+    };
+}
+
+export function pairwise<T>(gen: GenFn<T>): GenFn<[T, T]> {
+  return function* () {
+    let first = true;
+    let prev!: T;
+    for (const item of gen()) {
+      if (!first) yield [prev, item];
+      first = false;
+      prev = item;
+    }
+  };
+}
+
+export function pairwiseBack<T>(gen: GenFn<T>): GenFn<[T, T]> {
+  return map<[T, T], [T, T]>(([a, b]) => [b, a])(pairwise(gen));
+}
+
+export function scan<T, U>(
   init: U,
   fn: (acc: U, item: T) => U,
-): (gen: GenFn<T>) => U {
-  return (gen) => {
-    let acc = init;
-    for (const item of gen()) acc = fn(acc, item);
-    return acc;
-  };
+): (gen: GenFn<T>) => GenFn<U> {
+  return (gen) =>
+    fuse(gen, () => {
+      let acc = init;
+      return (item) => (acc = fn(acc, item));
+    });
 }
 
-export function reduce<T>(
-  fn: (acc: T, item: T) => T,
-): (gen: GenFn<T>) => Option<T> {
-  return (gen) => {
-    const iterator = gen();
-    const first = iterator.next();
-    if (first.done) return undefined; // 🔹 If empty, return `undefined`
-    let acc = first.value; // 🔹 Start with the first element
-    for (const item of iterator) {
-      acc = fn(acc, item); // 🔹 Only apply `fn` to the rest of the elements
+export function stepBy<T>(n: number): (gen: GenFn<T>) => GenFn<T> {
+  assertSize(n, "Step");
+  return (gen) =>
+    fuse(gen, () => {
+      let i = 0;
+      return (item) => (i++ % n === 0 ? item : SKIP);
+    });
+}
+
+export function onFinally<T>(fn: () => void): (gen: GenFn<T>) => GenFn<T> {
+  return (gen) =>
+    function* () {
+      try {
+        yield* gen();
+      } finally {
+        fn();
+      }
+    };
+}
+
+/**
+ * Runs `gen` once, the first time an item is needed, and records what it
+ * yields. Every pass replays the record and only pulls items no pass has read
+ * yet, so passes may also interleave. The run stays open between passes until
+ * it ends or the result is disposed.
+ */
+export function cache<T>(gen: GenFn<T>): GenFn<T> & Disposable {
+  const buffer: Array<T> = [];
+  const source = shared(gen);
+  return Object.assign(function* () {
+    for (let i = 0;; i++) {
+      if (i === buffer.length) {
+        const result = source.next();
+        if (result.done) return;
+        buffer.push(result.value);
+      }
+      yield buffer[i];
     }
-    return acc;
+  }, { [Symbol.dispose]: () => source.close() });
+}
+
+/**
+ * Splits one pass of `gen` into `n` branches that each see every item. Items
+ * are buffered until every branch still running has read them, so memory
+ * grows only with the gap between the fastest and the slowest branch. The run
+ * is closed once every branch has ended or been disposed.
+ */
+export function tee<T>(
+  n: number,
+): (gen: GenFn<T>) => Array<GenFn<T> & Disposable> {
+  assertSize(n, "Branch count");
+  return (gen) => {
+    const source = shared(gen);
+    const buffer = new Map<number, T>();
+    const positions = Array.from({ length: n }, () => 0);
+    const running = new Set(positions.keys());
+    let pulled = 0;
+    let kept = 0;
+
+    // 🔹 Drops what every running branch has read, and stops the source
+    // once no branch is left
+    const release = () => {
+      if (running.size === 0) {
+        source.close();
+        buffer.clear();
+        return;
+      }
+      let slowest = pulled;
+      for (const k of running) slowest = Math.min(slowest, positions[k]);
+      while (kept < slowest) buffer.delete(kept++);
+    };
+
+    const end = (k: number) => {
+      running.delete(k);
+      release();
+    };
+
+    return positions.map((_, k) =>
+      Object.assign(
+        oneShot(function* () {
+          try {
+            while (true) {
+              const at = positions[k];
+              if (at === pulled) {
+                const result = source.next();
+                if (result.done) return;
+                buffer.set(pulled++, result.value);
+              }
+              const item = buffer.get(at) as T;
+              positions[k] = at + 1;
+              release();
+              yield item;
+            }
+          } finally {
+            end(k);
+          }
+        }),
+        { [Symbol.dispose]: () => end(k) },
+      )
+    );
   };
 }
 
-export function count<T>(): (gen: GenFn<T>) => number {
-  return (gen) => fold(0, (acc) => acc + 1)(gen);
+/**
+ * Runs `gen` once and lets every pass pull from that one run, so a pass
+ * continues where the previous one stopped instead of starting over. The run
+ * stays open between passes until it ends or the result is disposed.
+ */
+export function share<T>(gen: GenFn<T>): GenFn<T> & Disposable {
+  const source = shared(gen);
+  return Object.assign(function* () {
+    while (true) {
+      const result = source.next();
+      if (result.done) return;
+      yield result.value;
+    }
+  }, { [Symbol.dispose]: () => source.close() });
 }
 
-export function cycle<T>(gen: GenFn<T>): GenFn<T> {
-  return function* () {
-    while (true) yield* gen();
+/** Throws when `gen` is called a second time. */
+export function oneShot<T>(gen: GenFn<T>): GenFn<T> {
+  let used = false;
+  return () => {
+    if (used) throw new Error("This iterator can only be iterated once");
+    used = true;
+    return gen();
   };
 }
 
-export function any<T>(fn: Predicate<T>): (gen: GenFn<T>) => boolean {
-  return (gen) => {
-    for (const item of gen()) if (fn(item)) return true;
-    return false;
+type Shared<T> = {
+  next(): IteratorResult<T, undefined>;
+  close(): void;
+};
+
+// One lazily started run of `gen` for several readers. Stopping a reader does
+// not stop the run, only `close` does, and an error is thrown again to every
+// later reader.
+function shared<T>(gen: GenFn<T>): Shared<T> {
+  let iterator: Generator<T> | undefined;
+  let done = false;
+  let failure: { error: unknown } | undefined;
+  return {
+    next() {
+      if (failure) throw failure.error;
+      if (done) return { done: true, value: undefined };
+      try {
+        const result = (iterator ??= gen()).next();
+        if (result.done) {
+          done = true;
+          return { done: true, value: undefined };
+        }
+        return result;
+      } catch (error) {
+        failure = { error };
+        throw error;
+      }
+    },
+    close() {
+      done = true;
+      iterator?.return(undefined);
+    },
   };
 }
 
-export function all<T>(fn: Predicate<T>): (gen: GenFn<T>) => boolean {
-  return (gen) => {
-    for (const item of gen()) if (!fn(item)) return false;
-    return true;
-  };
+/** Orders values with `<` and `>`, such as numbers, strings or bigints. */
+export function compare<T>(a: T, b: T): number {
+  return a < b ? -1 : a > b ? 1 : 0;
 }
 
-export function find<T>(fn: Predicate<T>): (gen: GenFn<T>) => Option<T> {
+export function sorted<T>(
+  cmp: Comparator<T> = compare,
+): (gen: GenFn<T>) => GenFn<T> {
+  return (gen) =>
+    function* () {
+      yield* [...gen()].sort(cmp);
+    };
+}
+
+export function sortedBy<T, K>(
+  fn: (item: T) => K,
+): (gen: GenFn<T>) => GenFn<T> {
+  return (gen) =>
+    function* () {
+      // 🔹 Compute every key once, not on each comparison
+      const keyed = Array.from(gen(), (item): [K, T] => [fn(item), item]);
+      keyed.sort((a, b) => compare(a[0], b[0]));
+      for (const [, item] of keyed) yield item;
+    };
+}
+
+export function uniqueBy<T, K>(
+  fn: (item: T) => K,
+): (gen: GenFn<T>) => GenFn<T> {
+  return (gen) =>
+    fuse(gen, () => {
+      const seen = new Set<K>();
+      return (item) => {
+        const key = fn(item);
+        if (seen.has(key)) return SKIP;
+        seen.add(key);
+        return item;
+      };
+    });
+}
+
+/** The items of one pass over `gen` by key, keys in order of first appearance. */
+function indexBy<T, K>(
+  gen: GenFn<T>,
+  fn: (item: T) => K,
+): Map<K, Array<T>> {
+  const index = new Map<K, Array<T>>();
+  for (const item of gen()) {
+    const key = fn(item);
+    const group = index.get(key);
+    if (group) group.push(item);
+    else index.set(key, [item]);
+  }
+  return index;
+}
+
+/**
+ * Groups items by key, keys in order of first appearance. Every pass reads the
+ * whole source before yielding the first group.
+ */
+export function groupBy<T, K>(
+  fn: (item: T) => K,
+): (gen: GenFn<T>) => GenFn<[K, Array<T>]> {
+  return (gen) =>
+    function* () {
+      yield* indexBy(gen, fn);
+    };
+}
+
+/**
+ * Hash join of `gen` with `other`, pairing the items whose keys are equal.
+ * One side is read into a hash index when the pass starts, the left one if
+ * `indexLeft`, and the other side is streamed.
+ *
+ * With `keepLeft` / `keepRight`, unmatched items of that side are paired with
+ * `none`: the streamed side's in place, the indexed side's once the streamed
+ * side ends.
+ */
+export function hashJoin<T, U, K>(
+  other: GenFn<U>,
+  keyA: (item: T) => K,
+  keyB: (item: U) => K,
+  options: { indexLeft: boolean; keepLeft: boolean; keepRight: boolean },
+): (gen: GenFn<T>) => GenFn<[Option<T>, Option<U>]> {
+  const { indexLeft, keepLeft, keepRight } = options;
+  return (gen) =>
+    function* () {
+      if (!indexLeft) {
+        for (
+          const [b, a] of probe(other, keyB, gen, keyA, keepRight, keepLeft)
+        ) {
+          yield [a, b];
+        }
+        return;
+      }
+      yield* probe(gen, keyA, other, keyB, keepLeft, keepRight);
+    };
+}
+
+// 🔹 Indexes `indexed`, streams `streamed`, and yields `[indexed, streamed]`
+function* probe<A, B, K>(
+  indexed: GenFn<A>,
+  keyA: (item: A) => K,
+  streamed: GenFn<B>,
+  keyB: (item: B) => K,
+  keepIndexed: boolean,
+  keepStreamed: boolean,
+): Generator<[Option<A>, Option<B>]> {
+  const index = indexBy(indexed, keyA);
+  const matched = new Set<K>();
+  for (const b of streamed()) {
+    const key = keyB(b);
+    const group = index.get(key);
+    if (group === undefined) {
+      if (keepStreamed) yield [none, new Some(b)];
+      continue;
+    }
+    matched.add(key);
+    for (const a of group) yield [new Some(a), new Some(b)];
+  }
+  if (!keepIndexed) return;
+  for (const [key, group] of index) {
+    if (!matched.has(key)) { for (const a of group) yield [new Some(a), none]; }
+  }
+}
+
+/** Pairs every item of `gen` with the items of `other` that share its key. */
+export function groupJoin<T, U, K>(
+  other: GenFn<U>,
+  keyA: (item: T) => K,
+  keyB: (item: U) => K,
+): (gen: GenFn<T>) => GenFn<[T, Array<U>]> {
+  return (gen) =>
+    function* () {
+      const index = indexBy(other, keyB);
+      for (const a of gen()) yield [a, index.get(keyA(a)) ?? []];
+    };
+}
+
+/**
+ * Keeps the items of `gen` whose key appears in `other` when `matching`, or
+ * the ones whose key does not. With `indexLeft`, `gen` is buffered and
+ * `other` streamed, stopping once every key of `gen` is found.
+ */
+export function semiJoin<T, U, K>(
+  other: GenFn<U>,
+  keyA: (item: T) => K,
+  keyB: (item: U) => K,
+  options: { indexLeft: boolean; matching: boolean },
+): (gen: GenFn<T>) => GenFn<T> {
+  const { indexLeft, matching } = options;
+  return (gen) =>
+    function* () {
+      if (!indexLeft) {
+        const keys = new Set<K>();
+        for (const b of other()) keys.add(keyB(b));
+        for (const a of gen()) if (keys.has(keyA(a)) === matching) yield a;
+        return;
+      }
+      const items: Array<[K, T]> = [];
+      for (const a of gen()) items.push([keyA(a), a]);
+      const missing = new Set(items.map(([key]) => key));
+      const found = new Set<K>();
+      for (const b of other()) {
+        const key = keyB(b);
+        if (!missing.delete(key)) continue;
+        found.add(key);
+        if (missing.size === 0) break;
+      }
+      for (const [key, a] of items) if (found.has(key) === matching) yield a;
+    };
+}
+
+export function unique<T>(gen: GenFn<T>): GenFn<T> {
+  return uniqueBy<T, T>((item) => item)(gen);
+}
+
+export function dedup<T>(gen: GenFn<T>): GenFn<T> {
+  return fuse(gen, () => {
+    let first = true;
+    let prev: T;
+    return (item) => {
+      if (!first && item === prev) return SKIP;
+      first = false;
+      prev = item;
+      return item;
+    };
+  });
+}
+
+export function mergeSorted<T>(
+  others: Array<GenFn<T>>,
+  cmp: Comparator<T> = compare,
+): (gen: GenFn<T>) => GenFn<T> {
+  return (gen) =>
+    function* () {
+      // 🔹 Ties go to the earlier source, so the merge is stable
+      const heap = new Heap<[T, number, Generator<T>]>((a, b) => {
+        const order = cmp(a[0], b[0]);
+        return order < 0 || (order === 0 && a[1] < b[1]);
+      });
+      try {
+        [gen, ...others].forEach((source, i) => {
+          const iterator = source();
+          const first = iterator.next();
+          if (!first.done) heap.push([first.value, i, iterator]);
+        });
+        while (heap.size > 0) {
+          const [value, i, iterator] = heap.peek()!;
+          yield value;
+          const next = iterator.next();
+          if (next.done) heap.pop();
+          else heap.replaceTop([next.value, i, iterator]);
+        }
+      } finally {
+        for (const [, , iterator] of heap.items()) iterator.return(undefined);
+      }
+    };
+}
+
+export function topK<T>(
+  k: number,
+  cmp: Comparator<T> = compare,
+): (gen: GenFn<T>) => GenFn<T> {
+  const size = toCount(k);
+  return (gen) =>
+    function* () {
+      if (size === 0) return;
+      // 🔹 Keeps the best `k` so far with the worst on top; among equal
+      // items the later one is worse, so ties keep source order
+      const worse = (a: [T, number], b: [T, number]) => {
+        const order = cmp(a[0], b[0]);
+        return order < 0 || (order === 0 && a[1] > b[1]);
+      };
+      const heap = new Heap(worse);
+      let i = 0;
+      drain(gen, (item) => {
+        const entry: [T, number] = [item, i++];
+        if (heap.size < size) heap.push(entry);
+        else if (worse(heap.peek()!, entry)) heap.replaceTop(entry);
+        return false;
+      });
+      const best = heap.items().sort((a, b) => (worse(a, b) ? 1 : -1));
+      for (const [item] of best) yield item;
+    };
+}
+
+export function bottomK<T>(
+  k: number,
+  cmp: Comparator<T> = compare,
+): (gen: GenFn<T>) => GenFn<T> {
+  return topK(k, (a, b) => cmp(b, a));
+}
+
+export function isSorted<T>(
+  cmp: Comparator<T> = compare,
+): (gen: GenFn<T>) => boolean {
   return (gen) => {
-    for (const item of gen()) if (fn(item)) return item;
-    return undefined;
+    let first = true;
+    let prev!: T;
+    let ordered = true;
+    drain(gen, (item) => {
+      if (!first && cmp(prev, item) > 0) {
+        ordered = false;
+        return true;
+      }
+      first = false;
+      prev = item;
+      return false;
+    });
+    return ordered;
   };
 }
 
-export function forEach<T>(fn: (item: T) => void): (gen: GenFn<T>) => void {
+export function min<T>(
+  cmp: Comparator<T> = compare,
+): (gen: GenFn<T>) => Option<T> {
+  return reduce((acc, item) => (cmp(item, acc) < 0 ? item : acc));
+}
+
+export function max<T>(
+  cmp: Comparator<T> = compare,
+): (gen: GenFn<T>) => Option<T> {
+  return reduce((acc, item) => (cmp(item, acc) > 0 ? item : acc));
+}
+
+export function minMax<T>(
+  cmp: Comparator<T> = compare,
+): (gen: GenFn<T>) => Option<[T, T]> {
   return (gen) => {
-    for (const item of gen()) fn(item);
+    let bounds: [T, T] | undefined;
+    drain(gen, (item) => {
+      if (bounds === undefined) bounds = [item, item];
+      else if (cmp(item, bounds[0]) < 0) bounds[0] = item;
+      else if (cmp(item, bounds[1]) > 0) bounds[1] = item;
+      return false;
+    });
+    return bounds === undefined ? none : new Some(bounds);
   };
 }
 
+export function assertSize(n: number, name: string) {
+  if (!(n >= 1)) throw new Error(`${name} must be at least 1`);
+}
+
+/**
+ * Rounds a `take` / `skip` count toward zero, as the native helpers do.
+ *
+ * @throws {RangeError} When `n` is negative or `NaN`, also like them.
+ */
+export function toCount(n: number): number {
+  if (!(n > -1)) throw new RangeError(`Count must be 0 or more, got ${n}`);
+  return Math.max(0, Math.trunc(n));
+}
+
+/** Resolves a possibly negative `Array#slice` index into `[0, len]`. */
+export function clampIndex(i: number, len: number): number {
+  const k = Math.trunc(i);
+  return k < 0 ? Math.max(0, len + k) : Math.min(k, len);
+}
+
 /**  Alias to any */
 export const some = any;
 /**  Alias to all */
@@ -0,0 +1,120 @@
+import { assertEquals } from "@std/assert";
+import type { Iter } from "./iter.ts";
+import { iter } from "./mod.ts";
+
+/** An iterator over `items` counting how often its source starts and closes. */
+function tracked<T>(items: Array<T>) {
+  const log = { runs: 0, closed: 0 };
+  const it: Iter<T> = iter(function* () {
+    log.runs++;
+    try {
+      yield* items;
+    } finally {
+      log.closed++;
+    }
+  });
+  return { it, log };
+}
+
+Deno.test("cache keeps the source open for later passes", () => {
+  const { it, log } = tracked([1, 2, 3, 4, 5]);
+  const cached = it.cache();
+  for (const item of cached) if (item === 2) break;
+  assertEquals(log, { runs: 1, closed: 0 });
+  assertEquals([...cached], [1, 2, 3, 4, 5]);
+  assertEquals(log, { runs: 1, closed: 1 });
+});
+
+Deno.test("cache serves count after find stopped early", () => {
+  const { it, log } = tracked([1, 2, 3, 4, 5]);
+  const cached = it.cache();
+  assertEquals(cached.find((x) => x === 1).unwrap(), 1);
+  assertEquals(cached.count(), 5);
+  assertEquals(log, { runs: 1, closed: 1 });
+});
+
+Deno.test("cache closes the source when disposed", () => {
+  const { it, log } = tracked([1, 2, 3]);
+  const cached = it.cache();
+  cached[Symbol.iterator]().next();
+  cached[Symbol.dispose]();
+  assertEquals(log, { runs: 1, closed: 1 });
+  assertEquals([...cached], [1]);
+});
+
+Deno.test("cache runs the source once across full passes", () => {
+  const { it, log } = tracked([1, 2, 3]);
+  const cached = it.cache();
+  assertEquals(cached.count(), 3);
+  assertEquals(cached.fold(0, (sum, x) => sum + x), 6);
+  assertEquals(log, { runs: 1, closed: 1 });
+});
+
+Deno.test("share continues where the previous pass stopped", () => {
+  const { it, log } = tracked([1, 2, 3, 4, 5]);
+  const shared = it.share();
+  assertEquals([...shared.take(2)], [1, 2]);
+  assertEquals(log.closed, 0);
+  assertEquals([...shared], [3, 4, 5]);
+  assertEquals(log, { runs: 1, closed: 1 });
+});
+
+Deno.test("share splits the items between passes running side by side", () => {
+  const { it, log } = tracked([1, 2, 3, 4, 5]);
+  const shared = it.share();
+  const a = shared[Symbol.iterator]();
+  const b = shared[Symbol.iterator]();
+  assertEquals([a.next().value, b.next().value, a.next().value], [1, 2, 3]);
+  a.return(undefined);
+  assertEquals(log.closed, 0);
+  assertEquals([...b], [4, 5]);
+  assertEquals(log, { runs: 1, closed: 1 });
+});
+
+Deno.test("share closes the source when disposed", () => {
+  const { it, log } = tracked([1, 2, 3]);
+  const shared = it.share();
+  shared[Symbol.iterator]().next();
+  shared[Symbol.dispose]();
+  assertEquals(log, { runs: 1, closed: 1 });
+  assertEquals([...shared], []);
+});
+
+Deno.test("tee gives a later branch every item", () => {
+  const { it, log } = tracked([0, 1, 2, 3, 4]);
+  const [a, b] = it.tee(2);
+  assertEquals([...a.take(2)], [0, 1]);
+  assertEquals(log.closed, 0);
+  assertEquals([...b], [0, 1, 2, 3, 4]);
+  assertEquals(log, { runs: 1, closed: 1 });
+});
+
+Deno.test("tee closes the source once every branch stops", () => {
+  const { it, log } = tracked([1, 2, 3]);
+  const [a, b] = it.tee(2);
+  const first = a[Symbol.iterator]();
+  const second = b[Symbol.iterator]();
+  first.next();
+  second.next();
+  first.return(undefined);
+  assertEquals(log.closed, 0);
+  second.return(undefined);
+  assertEquals(log, { runs: 1, closed: 1 });
+});
+
+Deno.test("tee closes the source once an unused branch is disposed", () => {
+  const { it, log } = tracked([1, 2, 3]);
+  const [a, b] = it.tee(2);
+  for (const _ of a) break;
+  assertEquals(log.closed, 0);
+  b[Symbol.dispose]();
+  assertEquals(log, { runs: 1, closed: 1 });
+});
+
+Deno.test("tee gives every branch every item from one run", () => {
+  const { it, log } = tracked([1, 2, 3]);
+  const [a, b] = it.tee(2);
+  assertEquals([...a], [1, 2, 3]);
+  assertEquals([...b], [1, 2, 3]);
+  assertEquals(log, { runs: 1, closed: 1 });
+});
@@ -0,0 +1,169 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { pipe } from "../fp.ts";
+import { DoubleEndedIter } from "./double_ended.ts";
+import { ExactSizedIter } from "./exact_sized.ts";
+import type { Iter } from "./iter.ts";
+import { iter } from "./mod.ts";
+import * as operators from "./operators.ts";
+
+// 🔹 Checks every windowing step against the same step on an array, over
+// sources of every tier: random-access, double-ended, exact-size and plain
+
+function sources(items: Array<number>): Array<[string, Iter<number>]> {
+  return [
+    ["array", iter(items)],
+    ["chain", iter(items.slice(0, 1)).chain(iter(items.slice(1)))],
+    ["set", iter(new Set(items))],
+    [
+      "generator",
+      iter(function* () {
+        yield* items;
+      }),
+    ],
+  ];
+}
+
+type Step = [
+  string,
+  (it: Iter<number>) => Iter<unknown>,
+  (items: Array<number>) => Array<unknown>,
+];
+
+function steps(n: number): Array<Step> {
+  return [
+    [
+      `windows(${n})`,
+      (it) => it.windows(n),
+      (xs) => xs.slice(n - 1).map((_, i) => xs.slice(i, i + n)),
+    ],
+    [
+      `chunks(${n})`,
+      (it) => it.chunks(n),
+      (xs) =>
+        Array.from(
+          { length: Math.ceil(xs.length / n) },
+          (_, i) => xs.slice(i * n, i * n + n),
+        ),
+    ],
+    [
+      `chunksExact(${n})`,
+      (it) => it.chunksExact(n),
+      (xs) =>
+        Array.from(
+          { length: Math.floor(xs.length / n) },
+          (_, i) => xs.slice(i * n, i * n + n),
+        ),
+    ],
+    [
+      `stepBy(${n})`,
+      (it) => it.stepBy(n),
+      (xs) => xs.filter((_, i) => i % n === 0),
+    ],
+    [
+      "pairwise",
+      (it) => it.pairwise(),
+      (xs) => xs.slice(1).map((x, i) => [xs[i], x]),
+    ],
+    [
+      "scan",
+      (it) => it.scan(0, (sum, x) => sum + x),
+      (xs) => xs.map((_, i) => xs.slice(0, i + 1).reduce((a, b) => a + b)),
+    ],
+  ];
+}
+
+Deno.test("windowing steps match arrays, with exact lengths and rev()", () => {
+  for (let length = 0; length <= 7; length++) {
+    const items = Array.from({ length }, (_, i) => i + 1);
+    for (let n = 1; n <= 4; n++) {
+      for (const [step, apply, model] of steps(n)) {
+        const expected = model(items);
+        for (const [kind, source] of sources(items)) {
+          const message = `${step} of ${kind} [${items}]`;
+          const it = apply(source);
+          assertEquals([...it], expected, message);
+          const [lower, upper] = it.sizeHint();
+          assert(lower <= expected.length, `lower bound of ${message}`);
+          assert(
+            upper === undefined || expected.length <= upper,
+            `upper bound of ${message}`,
+          );
+          if (source instanceof ExactSizedIter) {
+            assert(it instanceof ExactSizedIter, `tier of ${message}`);
+            assertEquals(it.len(), expected.length, message);
+          }
+          if (it instanceof DoubleEndedIter) {
+            assertEquals([...it.rev()], expected.toReversed(), message);
+          }
+        }
+      }
+    }
+  }
+});
+
+Deno.test("windows, chunks and stepBy stay reversible on arrays", () => {
+  const items = [1, 2, 3, 4, 5];
+  for (const [step, apply] of steps(2).filter(([step]) => step !== "scan")) {
+    assert(apply(iter(items)) instanceof DoubleEndedIter, step);
+  }
+  assertEquals([...iter(items).windows(3).rev()], [
+    [3, 4, 5],
+    [2, 3, 4],
+    [1, 2, 3],
+  ]);
+  assertEquals([...iter(items).chunks(2).rev()], [[5], [3, 4], [1, 2]]);
+  assertEquals([...iter(items).chunksExact(2).rev()], [[3, 4], [1, 2]]);
+  assertEquals([...iter(items).stepBy(2).rev()], [5, 3, 1]);
+});
+
+Deno.test("chunkBy groups runs of equal keys", () => {
+  const parity = (x: number) => x % 2;
+  assertEquals([...iter([1, 3, 2, 4, 5, 7, 6]).chunkBy(parity)], [
+    [1, 3],
+    [2, 4],
+    [5, 7],
+    [6],
+  ]);
+  assertEquals([...iter<number>([]).chunkBy(parity)], []);
+  assertEquals(iter([1, 2, 3]).chunkBy(parity).sizeHint(), [1, 3]);
+  assertEquals(iter<number>([]).chunkBy(parity).sizeHint(), [0, 0]);
+});
+
+Deno.test("windowing sizes below 1 or NaN throw when called", () => {
+  const it = iter([1, 2, 3]);
+  for (const n of [0, -1, NaN]) {
+    assertThrows(() => it.windows(n), Error, "Window size must be at least 1");
+    assertThrows(() => it.chunks(n), Error, "Chunk size must be at least 1");
+    assertThrows(
+      () => it.chunksExact(n),
+      Error,
+      "Chunk size must be at least 1",
+    );
+    assertThrows(() => it.stepBy(n), Error, "Step must be at least 1");
+  }
+});
+
+Deno.test("windowing operators match the methods", () => {
+  const items = [1, 2, 3, 4, 5];
+  assertEquals(pipe(items, operators.windows(2), operators.toArray), [
+    ...iter(items).windows(2),
+  ]);
+  assertEquals(pipe(items, operators.chunks(2), operators.toArray), [
+    ...iter(items).chunks(2),
+  ]);
+  assertEquals(pipe(items, operators.chunksExact(2), operators.toArray), [
+    ...iter(items).chunksExact(2),
+  ]);
+  assertEquals(
+    pipe(items, operators.chunkBy((x) => x < 3), operators.toArray),
+    [[1, 2], [3, 4, 5]],
+  );
+  assertEquals(pipe(items, operators.pairwise, operators.toArray), [
+    ...iter(items).pairwise(),
+  ]);
+  assertEquals(
+    pipe(items, operators.scan(1, (acc, x) => acc * x), operators.toArray),
+    [1, 2, 6, 24, 120],
+  );
+  assertEquals(pipe(items, operators.stepBy(3), operators.toArray), [1, 4]);
+});
@@ -0,0 +1,6 @@
+export * from "./iter/mod.ts";
+export * from "./iter/range.ts";
+export * from "./async.ts";
+export * from "./fp.ts";
+export * from "./option.ts";
+export * as operators from "./iter/operators.ts";
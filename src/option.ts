@@ -0,0 +1,254 @@
+/**
+ * Tagged `Option` and `Result` values.
+ *
+ * Terminals that may come up empty, such as `find`, `reduce` or `nth`, return
+ * an `Option`, so a found `undefined` (`some(undefined)`) is not mistaken for
+ * nothing found (`none`). Fallible pipelines carry `Result`s, built by
+ * `tryMap` and gathered by `collectResult`.
+ *
+ * Check the `tag` (or `isSome()` / `isOk()`) to reach the value, or use the
+ * combinators to avoid branching.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { iter } from "@blazes/iter";
+ *
+ * const found = iter([undefined, 1]).find((x) => x === undefined);
+ * assertEquals(found.isSome(), true);
+ * assertEquals(iter([1, 2]).find((x) => x > 2).unwrapOr(0), 0);
+ *
+ * const parsed = iter(["1", "x"]).tryMap((s) => {
+ *   if (Number.isNaN(Number(s))) throw new Error(`Not a number: ${s}`);
+ *   return Number(s);
+ * });
+ * assertEquals(parsed.collectResult().isErr(), true);
+ * ```
+ *
+ * @module
+ */
+
+/** A value that may be absent: either `Some<T>` or `None`. */
+export type Option<T> = Some<T> | None<T>;
+
+/** The outcome of a fallible step: either `Ok<T>` or `Err<E>`. */
+export type Result<T, E> = Ok<T, E> | Err<T, E>;
+
+// 🔹 Both variants inherit their methods from one base, so the methods can be
+// called on the `Option` union without narrowing it first
+abstract class OptionBase<T> {
+  abstract readonly tag: "some" | "none";
+
+  isSome(): this is Some<T> {
+    return this.tag === "some";
+  }
+
+  isNone(): this is None<T> {
+    return this.tag === "none";
+  }
+
+  /**
+   * The value of a `Some`.
+   *
+   * @throws {Error} If this is `None`.
+   */
+  unwrap(): T {
+    return this.expect("Called unwrap on None");
+  }
+
+  /**
+   * The value of a `Some`.
+   *
+   * @throws {Error} With `message` if this is `None`.
+   */
+  expect(message: string): T {
+    if (this.isSome()) return this.value;
+    throw new Error(message);
+  }
+
+  unwrapOr(fallback: T): T {
+    return this.isSome() ? this.value : fallback;
+  }
+
+  unwrapOrElse(fn: () => T): T {
+    return this.isSome() ? this.value : fn();
+  }
+
+  /** The value of a `Some`, or `undefined` for `None`. */
+  toUndefined(): T | undefined {
+    return this.isSome() ? this.value : undefined;
+  }
+
+  map<U>(fn: (value: T) => U): Option<U> {
+    return this.isSome() ? some(fn(this.value)) : none;
+  }
+
+  andThen<U>(fn: (value: T) => Option<U>): Option<U> {
+    return this.isSome() ? fn(this.value) : none;
+  }
+
+  filter(fn: (value: T) => boolean): Option<T> {
+    return this.isSome() && fn(this.value) ? this : none;
+  }
+
+  or(other: Option<T>): Option<T> {
+    return this.isSome() ? this : other;
+  }
+
+  orElse(fn: () => Option<T>): Option<T> {
+    return this.isSome() ? this : fn();
+  }
+
+  /** `Ok` with the value of a `Some`, or `Err(error)` for `None`. */
+  okOr<E>(error: E): Result<T, E> {
+    return this.isSome() ? ok(this.value) : err(error);
+  }
+
+  match<R>(cases: { some: (value: T) => R; none: () => R }): R {
+    return this.isSome() ? cases.some(this.value) : cases.none();
+  }
+
+  /** Yields the value of a `Some`, nothing for `None`. */
+  *[Symbol.iterator](): Generator<T> {
+    if (this.isSome()) yield this.value;
+  }
+}
+
+export class Some<T> extends OptionBase<T> {
+  readonly tag = "some" as const;
+  readonly value: T;
+
+  constructor(value: T) {
+    super();
+    this.value = value;
+  }
+}
+
+export class None<T = never> extends OptionBase<T> {
+  readonly tag = "none" as const;
+}
+
+abstract class ResultBase<T, E> {
+  abstract readonly tag: "ok" | "err";
+
+  // 🔹 `this` does not narrow in the `else` branch of `isOk()`, so read the
+  // other variant's field through these
+  protected get _value(): T {
+    return (this as unknown as Ok<T, E>).value;
+  }
+
+  protected get _error(): E {
+    return (this as unknown as Err<T, E>).error;
+  }
+
+  isOk(): this is Ok<T, E> {
+    return this.tag === "ok";
+  }
+
+  isErr(): this is Err<T, E> {
+    return this.tag === "err";
+  }
+
+  /**
+   * The value of an `Ok`.
+   *
+   * @throws {Error} If this is an `Err`, with its error as the `cause`.
+   */
+  unwrap(): T {
+    return this.expect("Called unwrap on Err");
+  }
+
+  /**
+   * The value of an `Ok`.
+   *
+   * @throws {Error} With `message` if this is an `Err`, with its error as the
+   * `cause`.
+   */
+  expect(message: string): T {
+    if (this.isOk()) return this.value;
+    throw new Error(message, { cause: this._error });
+  }
+
+  /**
+   * The error of an `Err`.
+   *
+   * @throws {Error} If this is an `Ok`.
+   */
+  unwrapErr(): E {
+    if (this.isErr()) return this.error;
+    throw new Error("Called unwrapErr on Ok");
+  }
+
+  unwrapOr(fallback: T): T {
+    return this.isOk() ? this.value : fallback;
+  }
+
+  unwrapOrElse(fn: (error: E) => T): T {
+    return this.isOk() ? this.value : fn(this._error);
+  }
+
+  map<U>(fn: (value: T) => U): Result<U, E> {
+    return this.isOk() ? ok(fn(this.value)) : err(this._error);
+  }
+
+  mapErr<F>(fn: (error: E) => F): Result<T, F> {
+    return this.isErr() ? err(fn(this.error)) : ok(this._value);
+  }
+
+  andThen<U>(fn: (value: T) => Result<U, E>): Result<U, E> {
+    return this.isOk() ? fn(this.value) : err(this._error);
+  }
+
+  orElse<F>(fn: (error: E) => Result<T, F>): Result<T, F> {
+    return this.isErr() ? fn(this.error) : ok(this._value);
+  }
+
+  /** The value of an `Ok` as a `Some`, dropping the error of an `Err`. */
+  ok(): Option<T> {
+    return this.isOk() ? some(this.value) : none;
+  }
+
+  /** The error of an `Err` as a `Some`, dropping the value of an `Ok`. */
+  err(): Option<E> {
+    return this.isErr() ? some(this.error) : none;
+  }
+
+  match<R>(cases: { ok: (value: T) => R; err: (error: E) => R }): R {
+    return this.isOk() ? cases.ok(this.value) : cases.err(this._error);
+  }
+}
+
+export class Ok<T, E = never> extends ResultBase<T, E> {
+  readonly tag = "ok" as const;
+  readonly value: T;
+
+  constructor(value: T) {
+    super();
+    this.value = value;
+  }
+}
+
+export class Err<T, E> extends ResultBase<T, E> {
+  readonly tag = "err" as const;
+  readonly error: E;
+
+  constructor(error: E) {
+    super();
+    this.error = error;
+  }
+}
+
+export function some<T>(value: T): Option<T> {
+  return new Some(value);
+}
+
+/** The empty `Option`, shared by every type. */
+export const none: None<never> = new None();
+
+export function ok<T, E = never>(value: T): Result<T, E> {
+  return new Ok(value);
+}
+
+export function err<T = never, E = unknown>(error: E): Result<T, E> {
+  return new Err(error);
+}
@@ -1,3 +1,15 @@
 export type GenFn<T> = () => Generator<T>;
-export type Option<T> = T | undefined;
+export type AsyncGenFn<T> = () => AsyncGenerator<T>;
+export type Awaitable<T> = T | Promise<T>;
 export type Predicate<T> = (value: T) => boolean;
+export type AsyncPredicate<T> = (value: T) => Awaitable<boolean>;
+/** Lower and upper bound on the remaining length, `undefined` meaning unbounded. */
+export type SizeHint = [lower: number, upper: number | undefined];
+/** Negative when `a` sorts before `b`, positive when after, `0` when tied. */
+export type Comparator<T> = (a: T, b: T) => number;
+/** One iterable per element of the tuple `T`, such as the sources of a product. */
+export type Iterables<T extends Array<unknown>> = {
+  [I in keyof T]: Iterable<T[I]>;
+};
+/** Lets a terminal be cancelled: it throws `signal.reason` once `signal` aborts. */
+export type AbortOptions = { signal?: AbortSignal };